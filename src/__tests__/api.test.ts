@@ -0,0 +1,187 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import {
+  buildImportGraph,
+  ConfigError,
+  GitError,
+  OptionsError,
+  selectTests,
+  toJsonOutput,
+} from '../api';
+import { CACHE_DIR_NAME } from '../cache';
+import { AnalysisReport } from '../types';
+import { listSelected, PLAYWRIGHT_PACKAGE, TestRepo } from './support/git-repo';
+
+const TEST_IMPORT = "import { test } from '@playwright/test';\n";
+
+/** A repo whose last commit changes a helper used by two of three specs, one through a fixture */
+function createHelperChange(repo: TestRepo): string {
+  repo.commit({
+    'package.json': PLAYWRIGHT_PACKAGE,
+    'helpers/auth.ts': "export function login(user: string) {\n  return user;\n}\n",
+    'fixtures/base.ts': "import { test as base } from '@playwright/test';\nimport { login } from '../helpers/auth';\nexport const test = base.extend<{ user: string }>({\n  user: async ({}, use) => { await use(login('ann')); },\n});\n",
+    'tests/a.spec.ts': `${TEST_IMPORT}import { login } from '../helpers/auth';\ntest('logs in', async () => { login('a'); });\n`,
+    'tests/b.spec.ts': "import { test } from '../fixtures/base';\ntest('uses the user', async ({ user }) => {});\n",
+    'tests/c.spec.ts': `${TEST_IMPORT}test('unrelated', async () => {});\n`,
+  });
+  return repo.commit({ 'helpers/auth.ts': "export function login(user: string) {\n  return user.trim();\n}\n" });
+}
+
+describe('selectTests options', () => {
+  let repo: TestRepo;
+
+  beforeEach(() => {
+    repo = new TestRepo();
+  });
+
+  afterEach(() => repo.remove());
+
+  it.each([
+    [{}, 'A mode must be given'],
+    [{ mode: 'commit' as const }, 'The commit mode requires a commit'],
+    [{ commit: 'HEAD', head: 'main' }, 'A head ref and merge-base require the range mode'],
+    [{ mode: 'all' as const, workers: 0 }, 'Workers must be a positive integer'],
+  ])('rejects %j', async (options, message) => {
+    const selection = selectTests({ repo: repo.path, ...options });
+
+    await expect(selection).rejects.toBeInstanceOf(OptionsError);
+    await expect(selection).rejects.toThrow(message);
+  });
+
+  it('rejects invalid configs and unknown refs with typed errors', async () => {
+    repo.commit({ 'package.json': PLAYWRIGHT_PACKAGE });
+
+    await expect(selectTests({ repo: repo.path, mode: 'all', config: { framework: 'cypress' } as never }))
+      .rejects.toBeInstanceOf(ConfigError);
+    await expect(selectTests({ repo: repo.path, commit: 'no-such-ref' })).rejects.toBeInstanceOf(GitError);
+  });
+
+  it('reports progress to the logger only', async () => {
+    const sha = createHelperChange(repo);
+    const messages: string[] = [];
+
+    await selectTests({ repo: repo.path, commit: sha, cache: false, logger: { info: m => messages.push(m), warn: m => messages.push(m) } });
+    expect(messages).toContain('Framework: playwright');
+    expect(messages).toContain('Found 1 changed file(s).');
+  });
+
+  it('measures the phases when profiling', async () => {
+    const sha = createHelperChange(repo);
+
+    const { profile } = await selectTests({ repo: repo.path, commit: sha, cache: false, profile: true });
+    expect(Object.keys(profile ?? {}).sort()).toEqual(['git', 'graph', 'parse', 'selection', 'total']);
+  });
+});
+
+describe('cache', () => {
+  let repo: TestRepo;
+
+  beforeEach(() => {
+    repo = new TestRepo();
+  });
+
+  afterEach(() => repo.remove());
+
+  it('selects the same tests from a warm cache, which git ignores', async () => {
+    const sha = createHelperChange(repo);
+    const EXPECTED = ['DEPENDENCY tests/a.spec.ts: logs in', 'DEPENDENCY tests/b.spec.ts: uses the user'];
+
+    expect(listSelected(await selectTests({ repo: repo.path, commit: sha }))).toEqual(EXPECTED);
+    expect(fs.existsSync(path.join(repo.path, CACHE_DIR_NAME, 'analysis.json'))).toBe(true);
+    expect(listSelected(await selectTests({ repo: repo.path, commit: sha }))).toEqual(EXPECTED);
+    expect(repo.git('status', '--porcelain')).toBe('');
+  });
+});
+
+describe('buildImportGraph', () => {
+  let repo: TestRepo;
+
+  beforeEach(() => {
+    repo = new TestRepo();
+  });
+
+  afterEach(() => repo.remove());
+
+  it('builds the import graph with the changed files marked', async () => {
+    const sha = createHelperChange(repo);
+
+    const graph = await buildImportGraph({ repo: repo.path, commit: sha, cache: false });
+    expect(graph.nodes).toEqual(expect.arrayContaining([
+      { file: 'helpers/auth.ts', kind: 'helper', dependentTests: 2, changed: true },
+      { file: 'fixtures/base.ts', kind: 'fixture', dependentTests: 1, changed: false },
+      { file: 'tests/c.spec.ts', kind: 'test', dependentTests: 0, changed: false },
+    ]));
+    expect(graph.edges).toEqual(expect.arrayContaining([
+      { from: 'fixtures/base.ts', to: 'helpers/auth.ts' },
+      { from: 'tests/b.spec.ts', to: 'fixtures/base.ts' },
+    ]));
+  });
+
+  it('reduces the graph to the files a change to one file reaches', async () => {
+    createHelperChange(repo);
+
+    const graph = await buildImportGraph({ repo: repo.path, from: 'fixtures/base.ts', cache: false });
+    expect(graph.nodes.map(node => node.file).sort()).toEqual(['fixtures/base.ts', 'tests/b.spec.ts']);
+    await expect(buildImportGraph({ repo: repo.path, from: 'README.md', cache: false })).rejects.toBeInstanceOf(OptionsError);
+  });
+});
+
+describe('toJsonOutput', () => {
+  const report: AnalysisReport = {
+    commitSha: 'abc',
+    repoPath: '/repo',
+    framework: 'playwright',
+    changedFiles: ['helpers/auth.ts'],
+    totalTestsSelected: 3,
+    fileResults: [
+      {
+        filePath: 'tests/a.spec.ts',
+        status: 'MODIFIED',
+        tests: [{
+          testName: 'Login > works (fast)',
+          titlePath: ['Login', 'works (fast)'],
+          fileName: 'tests/a.spec.ts',
+          impactType: 'DEPENDENCY',
+          reasons: [{ file: 'helpers/auth.ts', line: 2 }, { file: 'tests/a.spec.ts' }],
+        }],
+      },
+      {
+        filePath: 'tests/b.spec.ts',
+        status: 'MODIFIED',
+        hasDynamicTests: true,
+        tests: [{ testName: 'user ${id}', fileName: 'tests/b.spec.ts', impactType: 'DIRECT', isDynamic: true, reasons: [] }],
+      },
+    ],
+  };
+
+  it('builds the runner command for the grep-able files and lists the dynamic ones', () => {
+    const output = toJsonOutput(report);
+
+    expect(output).toEqual(expect.objectContaining({
+      files: ['tests/a.spec.ts', 'tests/b.spec.ts'],
+      tests: ['Login > works (fast)'],
+      grep: 'Login works \\(fast\\)',
+      runnerArgs: ['npx', 'playwright', 'test', 'tests/a.spec.ts', '--grep', 'Login works \\(fast\\)'],
+      filesWithDynamicTests: ['tests/b.spec.ts'],
+      hasDynamicTests: true,
+      runAll: false,
+    }));
+    expect(output.impacts[0]).toEqual({
+      file: 'tests/a.spec.ts',
+      test: 'Login > works (fast)',
+      impactType: 'DEPENDENCY',
+      reasons: [{ file: 'helpers/auth.ts', line: 2 }, { file: 'tests/a.spec.ts' }],
+    });
+  });
+
+  it('runs the whole suite when a run-all rule fired', () => {
+    const output = toJsonOutput({
+      ...report,
+      triggeredRules: [{ name: 'playwright-config', action: 'run-all', files: ['playwright.config.ts'] }],
+    });
+
+    expect(output.runAll).toBe(true);
+    expect(output.runnerArgs).toEqual(['npx', 'playwright', 'test']);
+  });
+});
@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { AnalysisCache, CACHE_VERSION, CachedFileInfo, getBlobSha, hashParts, TOOL_VERSION } from '../cache';
+
+const INFO: CachedFileInfo = {
+  imports: [{ specifier: './auth', isDynamic: false }],
+  exports: ['login'],
+  fixtures: [],
+};
+
+describe('AnalysisCache', () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'smart-test-cache-'));
+  });
+
+  afterEach(() => fs.rmSync(cacheDir, { recursive: true, force: true }));
+
+  it('persists the entries of live files across runs', () => {
+    const cache = AnalysisCache.open(cacheDir);
+    cache.track('helpers/login.ts', 'sha-login');
+    cache.setFileInfo('sha-login', INFO);
+    cache.track('tests/a.spec.ts', 'sha-spec');
+    cache.setTests('tests/a.spec.ts', 'key-1', [{ name: 'a', titlePath: ['a'], isDynamic: false, tags: [] }]);
+    cache.save();
+
+    const reopened = AnalysisCache.open(cacheDir);
+    expect(reopened.getFileInfo('sha-login')).toEqual(INFO);
+    expect(reopened.getTests('tests/a.spec.ts', 'key-1')).toHaveLength(1);
+    // Tests are only reused under the key they were stored with
+    expect(reopened.getTests('tests/a.spec.ts', 'key-2')).toBeUndefined();
+    // The cache directory ignores itself
+    expect(fs.readFileSync(path.join(cacheDir, '.gitignore'), 'utf-8')).toBe('*\n');
+  });
+
+  it('drops the entries of files no snapshot of the run holds', () => {
+    const first = AnalysisCache.open(cacheDir);
+    first.track('helpers/old.ts', 'sha-old');
+    first.setFileInfo('sha-old', INFO);
+    first.save();
+
+    const second = AnalysisCache.open(cacheDir);
+    second.track('helpers/new.ts', 'sha-new');
+    second.setFileInfo('sha-new', INFO);
+    second.save();
+
+    const third = AnalysisCache.open(cacheDir);
+    expect(third.getFileInfo('sha-old')).toBeUndefined();
+    expect(third.getFileInfo('sha-new')).toEqual(INFO);
+  });
+
+  it('takes over the entries of a worker thread\'s cache', () => {
+    const worker = AnalysisCache.open(cacheDir);
+    worker.track('helpers/login.ts', 'sha-login');
+    worker.setFileInfo('sha-login', INFO);
+
+    const main = AnalysisCache.open(cacheDir);
+    main.applyUpdates(worker.getUpdates());
+    main.save();
+
+    expect(AnalysisCache.open(cacheDir).getFileInfo('sha-login')).toEqual(INFO);
+  });
+
+  it.each([
+    ['tool version', { version: '0.0.0-other' }],
+    ['cache version', { cacheVersion: CACHE_VERSION - 1 }],
+  ])('discards a cache written with another %s', (_, change) => {
+    const cache = AnalysisCache.open(cacheDir);
+    cache.track('helpers/login.ts', 'sha-login');
+    cache.setFileInfo('sha-login', INFO);
+    cache.save();
+
+    const cacheFile = path.join(cacheDir, 'analysis.json');
+    const contents = JSON.parse(fs.readFileSync(cacheFile, 'utf-8'));
+    expect(contents).toEqual(expect.objectContaining({ version: TOOL_VERSION, cacheVersion: CACHE_VERSION }));
+    fs.writeFileSync(cacheFile, JSON.stringify({ ...contents, ...change }));
+
+    expect(AnalysisCache.open(cacheDir).getFileInfo('sha-login')).toBeUndefined();
+  });
+
+  it('starts empty from a corrupt cache file', () => {
+    fs.writeFileSync(path.join(cacheDir, 'analysis.json'), '{ corrupt');
+
+    expect(AnalysisCache.open(cacheDir).getFileInfo('sha-login')).toBeUndefined();
+  });
+
+  it.each([
+    ['null', null],
+    ['no tests', { files: {} }],
+    ['files of another type', { files: [], tests: {} }],
+  ])('starts empty from a cache file with %s', (_, contents) => {
+    const versions = { version: TOOL_VERSION, cacheVersion: CACHE_VERSION };
+    fs.writeFileSync(path.join(cacheDir, 'analysis.json'), JSON.stringify(contents && { ...versions, ...contents }));
+
+    const cache = AnalysisCache.open(cacheDir);
+    expect(cache.getFileInfo('sha-login')).toBeUndefined();
+    expect(cache.getTests('tests/a.spec.ts', 'key-1')).toBeUndefined();
+  });
+});
+
+describe('cache keys', () => {
+  it('computes the git blob SHA of a content', () => {
+    const gitSha = execFileSync('git', ['hash-object', '--stdin'], { input: 'héllo\n', encoding: 'utf-8' }).trim();
+
+    expect(getBlobSha('héllo\n')).toBe(gitSha);
+  });
+
+  it('hashes the parts separately, so their boundaries count', () => {
+    expect(hashParts(['ab', 'c'])).not.toBe(hashParts(['a', 'bc']));
+    expect(hashParts(['a', 'b'])).toBe(hashParts(['a', 'b']));
+  });
+});
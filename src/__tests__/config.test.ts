@@ -0,0 +1,70 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { ConfigError, loadConfig, matchesAny, validateConfig } from '../config';
+
+describe('validateConfig', () => {
+  it('accepts a config matching the schema', () => {
+    const config = {
+      testMatch: ['e2e/**/*.spec.ts'],
+      framework: 'vitest',
+      triggers: [{ name: 'admin', files: ['src/admin/**'], action: 'project', project: 'admin' }],
+    };
+
+    expect(validateConfig(config, '.smarttestrc')).toEqual(config);
+  });
+
+  it.each([
+    [[], 'expected an object of settings'],
+    [{ testMatchs: [] }, 'unknown setting "testMatchs"'],
+    [{ exclude: 'dist' }, '"exclude" must be an array of strings, got "dist"'],
+    [{ helperRoots: [''] }, '"helperRoots[0]" must be a non-empty string'],
+    [{ framework: 'cypress' }, '"framework" must be one of'],
+    [{ triggers: [{ files: [], action: 'run-all' }] }, '"triggers[0].files" must be a non-empty array of globs'],
+    [{ triggers: [{ files: ['.env'], action: 'rerun' }] }, '"triggers[0].action" must be one of'],
+    [{ triggers: [{ files: ['.env'], action: 'tag' }] }, '"triggers[0].tag" is required for the "tag" action'],
+  ])('rejects %j', (raw, message) => {
+    expect(() => validateConfig(raw, '.smarttestrc')).toThrow(ConfigError);
+    expect(() => validateConfig(raw, '.smarttestrc')).toThrow(message);
+  });
+});
+
+describe('loadConfig', () => {
+  let repoPath: string;
+
+  beforeEach(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'smart-test-config-'));
+  });
+
+  afterEach(() => fs.rmSync(repoPath, { recursive: true, force: true }));
+
+  it('returns null when the repo has no config file', () => {
+    expect(loadConfig(repoPath)).toBeNull();
+  });
+
+  it('evaluates a TypeScript config module', () => {
+    fs.writeFileSync(
+      path.join(repoPath, 'smart-test.config.ts'),
+      "const roots: string[] = ['helpers'];\nexport default { helperRoots: roots, runAllOn: ['global-setup.ts'] };\n"
+    );
+
+    expect(loadConfig(repoPath)).toEqual({
+      config: { helperRoots: ['helpers'], runAllOn: ['global-setup.ts'] },
+      filePath: path.join(repoPath, 'smart-test.config.ts'),
+    });
+  });
+
+  it('names the file of an unparseable config', () => {
+    fs.writeFileSync(path.join(repoPath, '.smarttestrc'), '{ not json');
+
+    expect(() => loadConfig(repoPath)).toThrow('Cannot parse config file .smarttestrc');
+  });
+});
+
+describe('matchesAny', () => {
+  it('matches repo-relative paths against globs, dotfiles included', () => {
+    expect(matchesAny('config/.env.local', ['**/.env.*'])).toBe(true);
+    expect(matchesAny('src/app.ts', ['**/*.spec.ts', 'helpers/**'])).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from '@jest/globals';
+import { Node } from 'ts-morph';
+import { ConstantEvaluator } from '../constant-evaluator';
+import { createSourceFile } from './support/project';
+
+/**
+ * Evaluates the initializer of the last variable declared in some code.
+ */
+function evaluateLast(code: string, otherFiles: Record<string, string> = {}) {
+  const sourceFile = createSourceFile('/repo/a.ts', code, otherFiles);
+  const initializer = sourceFile.getVariableDeclarations().pop()?.getInitializerOrThrow();
+  return new ConstantEvaluator().evaluateStatic(initializer as Node);
+}
+
+describe('ConstantEvaluator', () => {
+  it('evaluates literals, templates and concatenation of constants', () => {
+    expect(evaluateLast("const A = 'a';\nconst N = 2;\nconst X = `${A}-${N + 1}` + '!';")).toBe('a-3!');
+  });
+
+  it('follows imported constants and enum members', () => {
+    expect(evaluateLast("import { ROLE, Role } from './consts';\nconst X = ROLE + '/' + Role.Guest;", {
+      '/repo/consts.ts': "export const ROLE = 'admin';\nexport enum Role { Guest = 'guest' }\n",
+    })).toBe('admin/guest');
+  });
+
+  it('follows imported constants and evaluates member access', () => {
+    expect(evaluateLast("import { USERS } from './users';\nconst X = USERS[1].name;", {
+      '/repo/users.ts': "export const USERS = [{ name: 'ann' }, { name: 'bob' }];",
+    })).toBe('bob');
+  });
+
+  it('evaluates arrays and objects', () => {
+    expect(evaluateLast("const X = [{ a: 1, b: ['x', true] }];")).toEqual([{ a: 1, b: ['x', true] }]);
+  });
+
+  it('treats let variables, calls and cycles as not constant', () => {
+    expect(evaluateLast("let A = 'a';\nconst X = A;")).toBeUndefined();
+    expect(evaluateLast('const X = Date.now();')).toBeUndefined();
+    expect(evaluateLast('const A: string = B;\nconst B: string = A;\nconst X = A;')).toBeUndefined();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from '@jest/globals';
+import { Node, SyntaxKind } from 'ts-morph';
+import { FixtureAnalyzer } from '../fixtures';
+import { createSourceFile } from './support/project';
+
+const FIXTURES = `import { test as base } from '@playwright/test';
+export const test = base.extend<{ user: string; loginPage: object; adminPage: object; locale: string }>({
+  user: 'ann',
+  loginPage: async ({ page, user }, use) => { await use({ page, user }); },
+  adminPage: [async ({ loginPage }, use) => { await use(loginPage); }, { scope: 'test' }],
+  async settings(fixtures, use) { await use(fixtures); },
+  locale: ['en', { option: true }],
+});
+`;
+
+describe('FixtureAnalyzer', () => {
+  const analyzer = new FixtureAnalyzer();
+
+  it('finds the fixtures of test.extend with their dependencies', () => {
+    const definitions = analyzer.findFixtureDefinitions(createSourceFile('/repo/fixtures.ts', FIXTURES));
+
+    expect(definitions.map(({ name, dependencies }) => ({ name, dependencies }))).toEqual([
+      { name: 'user', dependencies: [] },
+      { name: 'loginPage', dependencies: ['page', 'user'] },
+      { name: 'adminPage', dependencies: ['loginPage'] },
+      { name: 'settings', dependencies: null },
+      { name: 'locale', dependencies: [] },
+    ]);
+  });
+
+  it('ignores extend calls on anything but the test function, such as custom matchers', () => {
+    const definitions = analyzer.findFixtureDefinitions(createSourceFile('/repo/setup.ts', `
+import { expect as baseExpect, test as base } from '@playwright/test';
+export const expect = baseExpect.extend({
+  toBeSum(received: number, a: number, b: number) { return { pass: received === a + b, message: () => '' }; },
+});
+const settings = Object.assign({}, { extend: (values: object) => values });
+settings.extend({ timeout: 1 });
+export const test = base.extend({ user: 'ann' }).extend({ admin: 'root' });
+`));
+
+    expect(definitions.map(definition => definition.name).sort()).toEqual(['admin', 'user']);
+  });
+
+  it('propagates a change to the fixtures depending on it', () => {
+    const definitions = analyzer.findFixtureDefinitions(createSourceFile('/repo/fixtures.ts', FIXTURES));
+    const changed = new Set(['user']);
+    analyzer.propagate(changed, definitions);
+
+    expect(Array.from(changed).sort()).toEqual(['adminPage', 'loginPage', 'settings', 'user']);
+  });
+
+  it('tells which fixtures a test destructures', () => {
+    const spec = createSourceFile('/repo/a.spec.ts', `import { test } from './fixtures';
+test('a', async ({ adminPage }) => {});
+test('b', async ({ page }) => {});
+test('c', async (fixtures) => {});
+`);
+    const [a, b, c] = spec.getDescendantsOfKind(SyntaxKind.CallExpression) as Node[];
+
+    expect(analyzer.usesAnyFixture(a as Node, new Set(['adminPage']))).toBe(true);
+    expect(analyzer.usesAnyFixture(b as Node, new Set(['adminPage']))).toBe(false);
+    // A parameter that isn't destructured may use any fixture
+    expect(analyzer.getUsedFixtures(c as Node)).toBeNull();
+  });
+});
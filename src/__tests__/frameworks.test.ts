@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, expect, it } from '@jest/globals';
+import { createFrameworkAdapter, detectFramework } from '../frameworks';
+
+describe('framework adapters', () => {
+  it('classifies Playwright calls by callee path', () => {
+    const playwright = createFrameworkAdapter('playwright');
+
+    expect(playwright.classifyCall(['test', 'describe', 'serial'], true)).toBe('describe');
+    expect(playwright.classifyCall(['test', 'only'], true)).toBe('test');
+    expect(playwright.classifyCall(['test', 'beforeEach'], true)).toBe('hook');
+    expect(playwright.classifyCall(['test', 'use'], false)).toBe('config');
+    expect(playwright.classifyCall(['test', 'skip'], false)).toBe('config');
+    expect(playwright.classifyCall(['test', 'step'], true)).toBeNull();
+  });
+
+  it('treats extra test callees like the framework test function', () => {
+    const playwright = createFrameworkAdapter('playwright', { extraTestCallees: ['smoke'] });
+
+    expect(playwright.classifyCall(['smoke'], true)).toBe('test');
+    expect(playwright.classifyCall(['smoke', 'describe'], true)).toBe('describe');
+  });
+
+  it('recognizes each framework\'s test files', () => {
+    expect(createFrameworkAdapter('jest').isTestFile('src/__tests__/sum.ts')).toBe(true);
+    expect(createFrameworkAdapter('vitest').isTestFile('src/__tests__/sum.ts')).toBe(false);
+    expect(createFrameworkAdapter('mocha').isTestFile('test/sum.js')).toBe(true);
+    expect(createFrameworkAdapter('node').isTestFile('lib/sum_test.mjs')).toBe(true);
+    expect(createFrameworkAdapter('playwright').isTestFile('tests/cart.spec.tsx')).toBe(true);
+    expect(createFrameworkAdapter('playwright').isTestFile('helpers/cart.ts')).toBe(false);
+  });
+
+  it('recognizes the Playwright setup projects\' files its default globs include', () => {
+    const playwright = createFrameworkAdapter('playwright');
+
+    expect(playwright.testFileGlobs.some(glob => glob.startsWith('tests/**/*.setup.'))).toBe(true);
+    expect(playwright.isTestFile('tests/auth.setup.ts')).toBe(true);
+    expect(playwright.isTestFile('tests/admin/auth.setup.js')).toBe(true);
+    expect(playwright.isTestFile('helpers/auth.setup.ts')).toBe(false);
+  });
+
+  it('replaces the default test files with testMatch globs', () => {
+    const playwright = createFrameworkAdapter('playwright', { testMatch: ['e2e/**/*.ts'] });
+
+    expect(playwright.testFileGlobs).toEqual(['e2e/**/*.ts']);
+    expect(playwright.isTestFile('e2e/cart.ts')).toBe(true);
+    expect(playwright.isTestFile('tests/cart.spec.ts')).toBe(false);
+  });
+
+  it('builds an escaped title filter and the runner command', () => {
+    const jest = createFrameworkAdapter('jest');
+    const pattern = jest.buildTitlePattern([jest.composeTitle(['Cart', 'adds (1+1)']), 'pays']);
+
+    expect(pattern).toBe('Cart adds \\(1\\+1\\)|pays');
+    expect(jest.getRunnerArgs(['cart.test.ts'], pattern)).toEqual(['npx', 'jest', 'cart.test.ts', '--testNamePattern', pattern]);
+    expect(createFrameworkAdapter('node').getRunnerArgs(['a.test.js'], 'x')).toEqual(['node', '--test', '--test-name-pattern', 'x', 'a.test.js']);
+  });
+});
+
+describe('detectFramework', () => {
+  const detect = (packageJson: unknown) => {
+    const repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'smart-test-framework-'));
+    try {
+      fs.writeFileSync(path.join(repoPath, 'package.json'), JSON.stringify(packageJson));
+      return detectFramework(repoPath);
+    } finally {
+      fs.rmSync(repoPath, { recursive: true, force: true });
+    }
+  };
+
+  it('detects the framework from the package dependencies', () => {
+    expect(detect({ devDependencies: { vitest: '1.0.0', jest: '29.0.0' } })).toBe('vitest');
+    expect(detect({ devDependencies: { mocha: '10.0.0' } })).toBe('mocha');
+    expect(detect({ dependencies: {} })).toBe('playwright');
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { GitError, GitService } from '../git';
+import { TestRepo } from './support/git-repo';
+
+describe('GitService', () => {
+  let repo: TestRepo;
+  let git: GitService;
+
+  beforeEach(() => {
+    repo = new TestRepo();
+    git = new GitService(repo.path);
+  });
+
+  afterEach(() => repo.remove());
+
+  it('reports the new-file lines a commit changed', async () => {
+    repo.commit({ 'a.ts': 'one\ntwo\nthree\n' });
+    const sha = repo.commit({ 'a.ts': 'one\nTWO\nthree\nfour\n' });
+
+    expect(await git.getChangedFiles(sha)).toEqual([
+      expect.objectContaining({ path: 'a.ts', status: 'MODIFIED', changedLines: [2, 4] }),
+    ]);
+  });
+
+  it('keeps the position and old-side range of pure deletions', async () => {
+    repo.commit({ 'a.ts': 'one\ntwo\nthree\nfour\n' });
+    const sha = repo.commit({ 'a.ts': 'one\nfour\n' });
+
+    const [fileDiff] = await git.getChangedFiles(sha);
+    expect(fileDiff?.changedLines).toEqual([]);
+    expect(fileDiff?.deletedAfterLines).toEqual([1]);
+    expect(fileDiff?.oldLineRanges).toEqual([{ startLine: 2, endLine: 3 }]);
+  });
+
+  it('reports renamed files with their old path', async () => {
+    repo.commit({ 'old.ts': 'export const a = 1;\nexport const b = 2;\nexport const c = 3;\n' });
+    repo.git('mv', 'old.ts', 'new.ts');
+    const sha = repo.commit({});
+
+    expect(await git.getChangedFiles(sha)).toEqual([
+      expect.objectContaining({ path: 'new.ts', status: 'RENAMED', oldPath: 'old.ts' }),
+    ]);
+  });
+
+  it('diffs a range against the merge-base of the base and head refs', async () => {
+    repo.commit({ 'a.ts': 'a\n', 'b.ts': 'b\n' });
+    repo.git('branch', 'feature');
+    repo.commit({ 'a.ts': 'a on main\n' });
+    repo.git('checkout', '--quiet', 'feature');
+    repo.commit({ 'b.ts': 'b on feature\n' });
+
+    const mergeBase = await git.getMergeBase('main', 'feature');
+    const changedFiles = await git.getChangedFilesInRange(mergeBase, 'feature');
+    expect(changedFiles.map(fileDiff => fileDiff.path)).toEqual(['b.ts']);
+
+    // Against the base itself, the main-only change shows up reverted
+    const againstBase = await git.getChangedFilesInRange('main', 'feature');
+    expect(againstBase.map(fileDiff => fileDiff.path).sort()).toEqual(['a.ts', 'b.ts']);
+  });
+
+  it('reports staged, unstaged and untracked working-tree changes', async () => {
+    repo.commit({ 'staged.ts': 'a\n', 'unstaged.ts': 'b\n' });
+    repo.write({ 'staged.ts': 'a changed\n' });
+    repo.git('add', 'staged.ts');
+    repo.write({ 'unstaged.ts': 'b changed\n', 'new.ts': 'one\ntwo\n' });
+
+    const workingTree = await git.getWorkingTreeChanges();
+    expect(workingTree).toEqual(expect.arrayContaining([
+      expect.objectContaining({ path: 'staged.ts', status: 'MODIFIED', changedLines: [1] }),
+      expect.objectContaining({ path: 'unstaged.ts', status: 'MODIFIED', changedLines: [1] }),
+      expect.objectContaining({ path: 'new.ts', status: 'ADDED', changedLines: [1, 2] }),
+    ]));
+    expect(workingTree).toHaveLength(3);
+
+    const staged = await git.getStagedChanges();
+    expect(staged.map(fileDiff => fileDiff.path)).toEqual(['staged.ts']);
+  });
+
+  it('reads file contents from a commit, not from disk', async () => {
+    const sha = repo.commit({ 'a.ts': 'committed\n' });
+    repo.write({ 'a.ts': 'on disk\n' });
+
+    expect(await git.getFileContent(sha, 'a.ts')).toBe('committed\n');
+    expect(await git.getFileContents(sha, ['a.ts', 'missing.ts'])).toEqual(new Map([['a.ts', 'committed\n']]));
+  });
+
+  it('rejects unknown commits', async () => {
+    repo.commit({ 'a.ts': 'a\n' });
+
+    await expect(git.getChangedFiles('no-such-ref')).rejects.toBeInstanceOf(GitError);
+  });
+});
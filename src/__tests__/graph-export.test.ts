@@ -0,0 +1,58 @@
+import { describe, expect, it } from '@jest/globals';
+import { formatGraph, getReachableSubgraph, isGraphFormat } from '../graph-export';
+import { ImportGraph } from '../types';
+
+const GRAPH: ImportGraph = {
+  nodes: [
+    { file: 'helpers/auth.ts', kind: 'helper', dependentTests: 2, changed: true },
+    { file: 'fixtures/base.ts', kind: 'fixture', dependentTests: 1, changed: false },
+    { file: 'tests/a.spec.ts', kind: 'test', dependentTests: 0, changed: false },
+    { file: 'tests/b.spec.ts', kind: 'test', dependentTests: 0, changed: false },
+    { file: 'helpers/other.ts', kind: 'helper', dependentTests: 0, changed: false },
+  ],
+  edges: [
+    { from: 'fixtures/base.ts', to: 'helpers/auth.ts' },
+    { from: 'tests/a.spec.ts', to: 'fixtures/base.ts' },
+    { from: 'tests/b.spec.ts', to: 'helpers/auth.ts' },
+    { from: 'tests/b.spec.ts', to: 'helpers/other.ts' },
+  ],
+};
+
+describe('getReachableSubgraph', () => {
+  it('keeps the file and every file importing it, transitively', () => {
+    const subgraph = getReachableSubgraph(GRAPH, 'helpers/auth.ts');
+
+    expect(subgraph?.nodes.map(node => node.file)).toEqual([
+      'helpers/auth.ts', 'fixtures/base.ts', 'tests/a.spec.ts', 'tests/b.spec.ts',
+    ]);
+    expect(subgraph?.edges).toHaveLength(3);
+  });
+
+  it('returns null for files outside the graph', () => {
+    expect(getReachableSubgraph(GRAPH, 'README.md')).toBeNull();
+  });
+});
+
+describe('formatGraph', () => {
+  it('renders DOT with kinds, dependent test counts and changed outlines', () => {
+    const dot = formatGraph(GRAPH, 'dot');
+
+    expect(dot).toContain('"helpers/auth.ts" [label="helpers/auth.ts\\n2 test file(s)", fillcolor="#f3f4f6", color="#dc2626", penwidth=3];');
+    expect(dot).toContain('"tests/a.spec.ts" [label="tests/a.spec.ts", fillcolor="#dbeafe", shape=note];');
+    expect(dot).toContain('"tests/a.spec.ts" -> "fixtures/base.ts";');
+  });
+
+  it('renders a Mermaid flowchart with generated ids', () => {
+    const mermaid = formatGraph(GRAPH, 'mermaid').split('\n');
+
+    expect(mermaid[0]).toBe('graph LR');
+    expect(mermaid).toContain('  n0["helpers/auth.ts<br/>2 test file(s)"]');
+    expect(mermaid).toContain('  n2 --> n1');
+    expect(mermaid).toContain('  class n0 changed');
+  });
+
+  it('renders JSON as the graph itself', () => {
+    expect(JSON.parse(formatGraph(GRAPH, 'json'))).toEqual(GRAPH);
+    expect(isGraphFormat('svg')).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { analyzeInWorkers } from '../parallel';
+import { Analyzer } from '../analyzer';
+import { createFrameworkAdapter } from '../frameworks';
+import { GitService } from '../git';
+import { Profiler } from '../profiler';
+import { GitTreeSource } from '../source-tree';
+import { PLAYWRIGHT_PACKAGE, TestRepo } from './support/git-repo';
+
+const TEST_IMPORT = "import { test } from '@playwright/test';\n";
+
+describe('analyzeInWorkers', () => {
+  const repo = new TestRepo();
+  // The workers load the TypeScript sources through ts-node: skip its type-check
+  const transpileOnly = process.env.TS_NODE_TRANSPILE_ONLY;
+
+  beforeAll(() => {
+    process.env.TS_NODE_TRANSPILE_ONLY = 'true';
+  });
+
+  afterAll(() => {
+    process.env.TS_NODE_TRANSPILE_ONLY = transpileOnly;
+    repo.remove();
+  });
+
+  it('deals the files out round-robin and returns the analyses in the order given', async () => {
+    const spec = (name: string, value: number) => `${TEST_IMPORT}test('${name}', async () => { console.log(${value}); });\n`;
+    const names = ['a', 'b', 'c', 'd', 'e'];
+    repo.commit({
+      'package.json': PLAYWRIGHT_PACKAGE,
+      ...Object.fromEntries(names.map(name => [`tests/${name}.spec.ts`, spec(name, 1)])),
+    });
+    const sha = repo.commit(Object.fromEntries(names.map(name => [`tests/${name}.spec.ts`, spec(name, 2)])));
+    const git = new GitService(repo.path);
+
+    const { analyses, workerResults } = await analyzeInWorkers(
+      {
+        repoPath: repo.path,
+        sourceTree: { kind: 'commit', commitSha: sha },
+        framework: 'playwright',
+        frameworkOptions: {},
+        config: {},
+        cacheDir: null,
+        prevCommitSha: await git.getParentCommitSha(sha),
+      },
+      await git.getChangedFiles(sha),
+      2
+    );
+
+    expect(workerResults).toHaveLength(2);
+    expect(analyses.map(analysis => analysis.fileResults.map(fileResult => fileResult.filePath))).toEqual(
+      names.map(name => [`tests/${name}.spec.ts`])
+    );
+    expect(analyses.flatMap(analysis => analysis.fileResults.flatMap(fileResult => fileResult.tests.map(test => test.testName))))
+      .toEqual(names);
+  }, 120000);
+
+  it('rejects with the error a worker fails with', async () => {
+    const sha = repo.commit({ 'tests/z.spec.ts': `${TEST_IMPORT}test('z', async () => {});\n` });
+    const git = new GitService(repo.path);
+
+    const analysis = analyzeInWorkers(
+      {
+        repoPath: repo.path,
+        sourceTree: { kind: 'commit', commitSha: 'no-such-commit' },
+        framework: 'playwright',
+        frameworkOptions: {},
+        config: {},
+        cacheDir: null,
+        prevCommitSha: null,
+      },
+      await git.getChangedFiles(sha),
+      1
+    );
+
+    await expect(analysis).rejects.toThrow('no-such-commit');
+  }, 120000);
+
+  it('warns and analyzes the files itself when the workers fail', async () => {
+    const spec = (name: string, value: number) => `${TEST_IMPORT}test('${name}', async () => { console.log(${value}); });\n`;
+    repo.commit({ 'tests/x.spec.ts': spec('x', 1), 'tests/y.spec.ts': spec('y', 1) });
+    const sha = repo.commit({ 'tests/x.spec.ts': spec('x', 2), 'tests/y.spec.ts': spec('y', 2) });
+    const git = new GitService(repo.path);
+    const warnings: string[] = [];
+    // A function can't be cloned into a worker thread
+    const config = { exclude: ['**/node_modules/**'], unclonable: () => {} } as never;
+
+    const analyzer = new Analyzer(
+      repo.path,
+      new GitTreeSource(git, sha),
+      createFrameworkAdapter('playwright'),
+      config,
+      null,
+      new Profiler(),
+      { info: () => {}, warn: message => warnings.push(message) }
+    );
+    const report = await analyzer.analyze(await git.getChangedFiles(sha), sha, await git.getParentCommitSha(sha), git, 2);
+
+    expect(report.totalTestsSelected).toBe(2);
+    expect(warnings[0]).toMatch(/Analysis workers failed: .*could not be cloned/);
+  }, 120000);
+});
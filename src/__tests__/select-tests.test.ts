@@ -0,0 +1,449 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { selectTests } from '../api';
+import { listSelected, PLAYWRIGHT_PACKAGE, TestRepo } from './support/git-repo';
+
+const TEST_IMPORT = "import { test } from '@playwright/test';\n";
+
+describe('selectTests', () => {
+  let repo: TestRepo;
+
+  beforeEach(() => {
+    repo = new TestRepo();
+  });
+
+  afterEach(() => repo.remove());
+
+  const select = async (commit: string) => listSelected(await selectTests({ repo: repo.path, commit, cache: false }));
+
+  describe('spec file changes', () => {
+    it('selects the tests whose lines changed, with their describe titles', async () => {
+      repo.commit({
+        'package.json': PLAYWRIGHT_PACKAGE,
+        'tests/cart.spec.ts': `${TEST_IMPORT}
+test.describe('Cart', () => {
+  test('adds', async () => {
+    console.log('add');
+  });
+  test('removes', async () => {
+    console.log('remove');
+  });
+});
+`,
+      });
+      const sha = repo.commit({
+        'tests/cart.spec.ts': `${TEST_IMPORT}
+test.describe('Cart', () => {
+  test('adds', async () => {
+    console.log('add twice');
+  });
+  test('removes', async () => {
+    console.log('remove');
+  });
+});
+`,
+      });
+
+      expect(await select(sha)).toEqual(['DIRECT tests/cart.spec.ts: Cart > adds']);
+    });
+
+    it('selects every test of a describe whose hook changed', async () => {
+      const spec = (hookBody: string) => `${TEST_IMPORT}
+test.describe('Cart', () => {
+  test.beforeEach(async () => {
+    ${hookBody}
+  });
+  test('adds', async () => {});
+  test('removes', async () => {});
+});
+test('outside', async () => {});
+`;
+      repo.commit({ 'package.json': PLAYWRIGHT_PACKAGE, 'tests/cart.spec.ts': spec("console.log('open');") });
+      const sha = repo.commit({ 'tests/cart.spec.ts': spec("console.log('open cart');") });
+
+      expect(await select(sha)).toEqual([
+        'DIRECT tests/cart.spec.ts: Cart > adds',
+        'DIRECT tests/cart.spec.ts: Cart > removes',
+      ]);
+    });
+
+    it('selects the tests using changed spec-level code', async () => {
+      const spec = (price: number) => `${TEST_IMPORT}
+const PRICE = ${price};
+const NAME = 'book';
+test('prices', async () => { console.log(PRICE); });
+test('names', async () => { console.log(NAME); });
+`;
+      repo.commit({ 'package.json': PLAYWRIGHT_PACKAGE, 'tests/shop.spec.ts': spec(1) });
+      const sha = repo.commit({ 'tests/shop.spec.ts': spec(2) });
+
+      expect(await select(sha)).toEqual(['LOCAL_DEPENDENCY tests/shop.spec.ts: prices']);
+    });
+
+    it('selects the test a pure deletion was made in', async () => {
+      repo.commit({
+        'package.json': PLAYWRIGHT_PACKAGE,
+        'tests/cart.spec.ts': `${TEST_IMPORT}
+test('adds', async () => {
+  console.log('one');
+  console.log('two');
+});
+test('removes', async () => {});
+`,
+      });
+      const sha = repo.commit({
+        'tests/cart.spec.ts': `${TEST_IMPORT}
+test('adds', async () => {
+  console.log('one');
+});
+test('removes', async () => {});
+`,
+      });
+
+      expect(await select(sha)).toEqual(['DIRECT tests/cart.spec.ts: adds']);
+    });
+
+    it('reports removed, renamed and moved tests', async () => {
+      const body = "{\n  await page.goto('/login');\n  await page.fill('#user', 'ann');\n  await page.click('text=Sign in');\n}";
+      repo.commit({
+        'package.json': PLAYWRIGHT_PACKAGE,
+        'tests/a.spec.ts': `${TEST_IMPORT}
+test('logs in', async ({ page }) => ${body});
+test('checks out', async ({ page }) => { await page.goto('/checkout'); });
+test('is dropped', async () => { console.log('bye'); });
+`,
+        'tests/b.spec.ts': `${TEST_IMPORT}\ntest('b', async () => {});\n`,
+      });
+      const sha = repo.commit({
+        'tests/a.spec.ts': `${TEST_IMPORT}
+test('signs in', async ({ page }) => ${body});
+`,
+        'tests/b.spec.ts': `${TEST_IMPORT}
+test('b', async () => {});
+test('checks out', async ({ page }) => { await page.goto('/checkout'); });
+`,
+      });
+
+      const report = await selectTests({ repo: repo.path, commit: sha, cache: false });
+      const tests = report.fileResults.flatMap(fileResult => fileResult.tests);
+      expect(listSelected(report)).toEqual([
+        'MOVED tests/b.spec.ts: checks out',
+        'REMOVED tests/a.spec.ts: is dropped',
+        'RENAMED tests/a.spec.ts: signs in',
+      ]);
+      expect(tests.find(test => test.impactType === 'RENAMED')?.previousName).toBe('logs in');
+      expect(tests.find(test => test.impactType === 'MOVED')?.previousFile).toBe('tests/a.spec.ts');
+    });
+
+    it('compares a renamed spec file with its old path', async () => {
+      const spec = (title: string) => `${TEST_IMPORT}
+test('${title}', async () => {
+  console.log('a');
+  console.log('b');
+  console.log('c');
+});
+test('stays', async () => {
+  console.log('d');
+});
+`;
+      repo.commit({ 'package.json': PLAYWRIGHT_PACKAGE, 'tests/old.spec.ts': spec('first') });
+      repo.git('mv', 'tests/old.spec.ts', 'tests/new.spec.ts');
+      const sha = repo.commit({ 'tests/new.spec.ts': spec('renamed') });
+
+      const report = await selectTests({ repo: repo.path, commit: sha, cache: false });
+      expect(report.fileResults).toEqual([
+        expect.objectContaining({ filePath: 'tests/new.spec.ts', status: 'RENAMED', oldPath: 'tests/old.spec.ts' }),
+      ]);
+      expect(listSelected(report)).toEqual(['RENAMED tests/new.spec.ts: renamed']);
+    });
+
+    it('selects no test of a spec file renamed without changes', async () => {
+      repo.commit({ 'package.json': PLAYWRIGHT_PACKAGE, 'tests/old.spec.ts': `${TEST_IMPORT}test('a', async () => {});\n` });
+      repo.git('mv', 'tests/old.spec.ts', 'tests/new.spec.ts');
+      const sha = repo.commit({});
+
+      const report = await selectTests({ repo: repo.path, commit: sha, cache: false });
+      expect(report.changedFiles).toEqual(['tests/new.spec.ts']);
+      expect(listSelected(report)).toEqual([]);
+    });
+
+    it('unrolls a loop whose test body changed into every generated test', async () => {
+      const spec = (step: string) => `${TEST_IMPORT}
+for (const role of ['admin', 'guest']) {
+  test(\`logs in as \${role}\`, async () => {
+    console.log('${step}', role);
+  });
+}
+`;
+      repo.commit({ 'package.json': PLAYWRIGHT_PACKAGE, 'tests/login.spec.ts': spec('open') });
+      const sha = repo.commit({ 'tests/login.spec.ts': spec('open login') });
+
+      expect(await select(sha)).toEqual([
+        'DIRECT tests/login.spec.ts: logs in as admin',
+        'DIRECT tests/login.spec.ts: logs in as guest',
+      ]);
+    });
+  });
+
+  describe('helper changes', () => {
+    const MATH = (addBody: string) => `export function add(a: number, b: number) {
+  return ${addBody};
+}
+
+export function sub(a: number, b: number) {
+  return a - b;
+}
+`;
+
+    it('selects the tests referencing the changed declarations only', async () => {
+      repo.commit({
+        'package.json': PLAYWRIGHT_PACKAGE,
+        'helpers/math.ts': MATH('a + b'),
+        'tests/add.spec.ts': `${TEST_IMPORT}import { add } from '../helpers/math';\ntest('adds', async () => { add(1, 2); });\ntest('counts', async () => {});\n`,
+        'tests/sub.spec.ts': `${TEST_IMPORT}import { sub } from '../helpers/math';\ntest('subtracts', async () => { sub(1, 2); });\n`,
+      });
+      const sha = repo.commit({ 'helpers/math.ts': MATH('b + a') });
+
+      expect(await select(sha)).toEqual(['DEPENDENCY tests/add.spec.ts: adds']);
+    });
+
+    it('tells apart the names one import statement binds', async () => {
+      repo.commit({
+        'package.json': PLAYWRIGHT_PACKAGE,
+        'helpers/math.ts': MATH('a + b'),
+        'helpers/index.ts': "export * from './math';\n",
+        'tests/math.spec.ts': `${TEST_IMPORT}import { add, sub } from '../helpers';
+import * as math from '../helpers/math';
+test.describe('Suite', () => {
+  test('adds', async () => { add(1, 2); });
+  test('subtracts', async () => { sub(1, 2); });
+  test('uses the namespace', async () => { math.add(1, 2); });
+});
+`,
+      });
+      const sha = repo.commit({ 'helpers/math.ts': MATH('b + a') });
+
+      expect(await select(sha)).toEqual([
+        'DEPENDENCY tests/math.spec.ts: Suite > adds',
+        'DEPENDENCY tests/math.spec.ts: Suite > uses the namespace',
+      ]);
+    });
+
+    it('follows path aliases, barrel files and helpers calling the changed code', async () => {
+      repo.commit({
+        'package.json': PLAYWRIGHT_PACKAGE,
+        'tsconfig.json': JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@h/*': ['helpers/*'] } } }),
+        'helpers/math.ts': MATH('a + b'),
+        'helpers/stats.ts': "import { add } from './math';\nexport const sum = (values: number[]) => values.reduce(add, 0);\n",
+        'helpers/index.ts': "export * from './stats';\n",
+        'tests/stats.spec.ts': `${TEST_IMPORT}import { sum } from '@h/index';\ntest('sums', async () => { sum([1, 2]); });\n`,
+      });
+      const sha = repo.commit({ 'helpers/math.ts': MATH('b + a') });
+
+      const report = await selectTests({ repo: repo.path, commit: sha, cache: false });
+      expect(listSelected(report)).toEqual(['DEPENDENCY tests/stats.spec.ts: sums']);
+      // The impact chain leads from the changed line through the importers to the spec
+      expect(report.fileResults[0]?.tests[0]?.reasons).toEqual([
+        { file: 'helpers/math.ts', line: 2 },
+        { file: 'helpers/stats.ts' },
+        { file: 'helpers/index.ts' },
+        { file: 'tests/stats.spec.ts' },
+      ]);
+    });
+
+    it('selects the tests using a changed fixture, directly or through other fixtures', async () => {
+      const fixtures = (user: string) => `import { test as base } from '@playwright/test';
+export const test = base.extend<{ user: string; account: string; cart: string }>({
+  user: async ({}, use) => { await use('${user}'); },
+  account: async ({ user }, use) => { await use(user + '-account'); },
+  cart: async ({}, use) => { await use('cart'); },
+});
+`;
+      repo.commit({
+        'package.json': PLAYWRIGHT_PACKAGE,
+        'fixtures/base.ts': fixtures('ann'),
+        'tests/shop.spec.ts': `import { test } from '../fixtures/base';
+test('greets', async ({ user }) => {});
+test('shows the account', async ({ account }) => {});
+test('fills the cart', async ({ cart }) => {});
+`,
+      });
+      const sha = repo.commit({ 'fixtures/base.ts': fixtures('bob') });
+
+      expect(await select(sha)).toEqual([
+        'DEPENDENCY tests/shop.spec.ts: greets',
+        'DEPENDENCY tests/shop.spec.ts: shows the account',
+      ]);
+    });
+
+    it('selects the tests using a changed custom matcher', async () => {
+      const matchers = (check: string) => `import { expect as baseExpect } from '@playwright/test';
+export const expect = baseExpect.extend({
+  toBeSum(received: number, a: number, b: number) {
+    return { pass: ${check}, message: () => 'not a sum' };
+  },
+});
+`;
+      repo.commit({
+        'package.json': PLAYWRIGHT_PACKAGE,
+        'helpers/matchers.ts': matchers('received === a + b'),
+        'tests/sum.spec.ts': `${TEST_IMPORT}import { expect } from '../helpers/matchers';
+test('sums', async () => { expect(3).toBeSum(1, 2); });
+test('does not sum', async () => {});
+`,
+      });
+      const sha = repo.commit({ 'helpers/matchers.ts': matchers('received === b + a') });
+
+      expect(await select(sha)).toEqual(['DEPENDENCY tests/sum.spec.ts: sums']);
+    });
+
+    it('selects the tests that imported a deleted helper', async () => {
+      repo.commit({
+        'package.json': PLAYWRIGHT_PACKAGE,
+        'helpers/strings.ts': 'export const shout = (text: string) => text.toUpperCase();\n',
+        'tests/strings.spec.ts': `${TEST_IMPORT}import { shout } from '../helpers/strings';\ntest('shouts', async () => { shout('a'); });\n`,
+        'tests/other.spec.ts': `${TEST_IMPORT}test('other', async () => {});\n`,
+      });
+      const sha = repo.commit({ 'helpers/strings.ts': null });
+
+      const report = await selectTests({ repo: repo.path, commit: sha, cache: false });
+      expect(listSelected(report)).toEqual(['DEPENDENCY_DELETED tests/strings.spec.ts: shouts']);
+      // A deleted file has no line left to point at
+      expect(report.fileResults[0]?.tests[0]?.reasons).toEqual([
+        { file: 'helpers/strings.ts' },
+        { file: 'tests/strings.spec.ts' },
+      ]);
+    });
+
+    it('selects the tests of JavaScript specs requiring a changed helper', async () => {
+      repo.commit({
+        'package.json': PLAYWRIGHT_PACKAGE,
+        'helpers/legacy.js': "exports.greet = function () {\n  return 'hi';\n};\n",
+        'tests/legacy.spec.js': "const { test } = require('@playwright/test');\nconst { greet } = require('../helpers/legacy');\ntest('greets', async () => { greet(); });\n",
+      });
+      const sha = repo.commit({ 'helpers/legacy.js': "exports.greet = function () {\n  return 'hello';\n};\n" });
+
+      expect(await select(sha)).toEqual(['DEPENDENCY tests/legacy.spec.js: greets']);
+    });
+
+    it('selects the tests loading a changed data file', async () => {
+      repo.commit({
+        'package.json': PLAYWRIGHT_PACKAGE,
+        'tests/data/users.json': '[{ "name": "ann" }]\n',
+        'tests/users.spec.ts': `${TEST_IMPORT}import users from './data/users.json';
+test('lists users', async () => { console.log(users); });
+test('lists nothing', async () => {});
+`,
+      });
+      const sha = repo.commit({ 'tests/data/users.json': '[{ "name": "bob" }]\n' });
+
+      const report = await selectTests({ repo: repo.path, commit: sha, cache: false });
+      expect(listSelected(report)).toEqual(['DATA_DEPENDENCY tests/users.spec.ts: lists users']);
+      expect(report.fileResults[0]?.tests[0]?.dataFile).toBe('tests/data/users.json');
+    });
+  });
+
+  describe('trigger rules and configuration', () => {
+    it('selects every test when the runner config changes', async () => {
+      repo.commit({
+        'package.json': PLAYWRIGHT_PACKAGE,
+        'playwright.config.ts': 'export default { retries: 0 };\n',
+        'tests/a.spec.ts': `${TEST_IMPORT}test('a', async () => {});\n`,
+        'tests/b.spec.ts': `${TEST_IMPORT}test('b', async () => {});\n`,
+      });
+      const sha = repo.commit({ 'playwright.config.ts': 'export default { retries: 2 };\n' });
+
+      const report = await selectTests({ repo: repo.path, commit: sha, cache: false });
+      expect(listSelected(report)).toEqual(['RUN_ALL tests/a.spec.ts: a', 'RUN_ALL tests/b.spec.ts: b']);
+      expect(report.triggeredRules).toEqual([
+        expect.objectContaining({ name: 'playwright-config', action: 'run-all', files: ['playwright.config.ts'] }),
+      ]);
+    });
+
+    it('applies the trigger rules and test callees of the project config', async () => {
+      repo.commit({
+        'package.json': PLAYWRIGHT_PACKAGE,
+        '.smarttestrc': JSON.stringify({
+          testCallees: ['smoke'],
+          triggers: [{ name: 'flags', files: ['flags/**'], action: 'tag', tag: '@flags' }],
+        }),
+        'flags/checkout.json': '{}\n',
+        'tests/a.spec.ts': `import { smoke } from './smoke';
+smoke('flagged @flags', async () => {});
+smoke('plain', async () => {});
+`,
+      });
+      const sha = repo.commit({ 'flags/checkout.json': '{ "on": true }\n' });
+
+      expect(await select(sha)).toEqual(['TAGGED tests/a.spec.ts: flagged @flags']);
+    });
+
+    it('treats the test callees of the project config as tests', async () => {
+      const spec = (value: number) => `import { smoke } from './smoke';
+smoke('logs', async () => { console.log(${value}); });
+smoke('stays', async () => {});
+`;
+      repo.commit({
+        'package.json': PLAYWRIGHT_PACKAGE,
+        '.smarttestrc': JSON.stringify({ testCallees: ['smoke'] }),
+        'tests/a.spec.ts': spec(1),
+      });
+      const sha = repo.commit({ 'tests/a.spec.ts': spec(2) });
+
+      expect(await select(sha)).toEqual(['DIRECT tests/a.spec.ts: logs']);
+    });
+  });
+
+  describe('modes', () => {
+    it('analyzes a whole branch against its merge-base', async () => {
+      repo.commit({
+        'package.json': PLAYWRIGHT_PACKAGE,
+        'tests/a.spec.ts': `${TEST_IMPORT}test('a', async () => { console.log(1); });\n`,
+        'tests/b.spec.ts': `${TEST_IMPORT}test('b', async () => { console.log(1); });\n`,
+      });
+      repo.git('checkout', '--quiet', '-b', 'feature');
+      repo.commit({ 'tests/a.spec.ts': `${TEST_IMPORT}test('a', async () => { console.log(2); });\n` });
+      repo.git('checkout', '--quiet', 'main');
+      repo.commit({ 'tests/b.spec.ts': `${TEST_IMPORT}test('b', async () => { console.log(2); });\n` });
+
+      const report = await selectTests({ repo: repo.path, base: 'main', head: 'feature', mergeBase: true, cache: false });
+      expect(listSelected(report)).toEqual(['DIRECT tests/a.spec.ts: a']);
+    });
+
+    it('analyzes uncommitted changes, or only the staged ones', async () => {
+      repo.commit({
+        'package.json': PLAYWRIGHT_PACKAGE,
+        'tests/a.spec.ts': `${TEST_IMPORT}test('a', async () => { console.log(1); });\n`,
+        'tests/b.spec.ts': `${TEST_IMPORT}test('b', async () => { console.log(1); });\n`,
+      });
+      repo.write({ 'tests/a.spec.ts': `${TEST_IMPORT}test('a', async () => { console.log(2); });\n` });
+      repo.git('add', 'tests/a.spec.ts');
+      repo.write({ 'tests/b.spec.ts': `${TEST_IMPORT}test('b', async () => { console.log(2); });\n` });
+
+      const workingTree = await selectTests({ repo: repo.path, mode: 'working-tree', cache: false });
+      expect(listSelected(workingTree)).toEqual(['DIRECT tests/a.spec.ts: a', 'DIRECT tests/b.spec.ts: b']);
+
+      const staged = await selectTests({ repo: repo.path, mode: 'staged', cache: false });
+      expect(listSelected(staged)).toEqual(['DIRECT tests/a.spec.ts: a']);
+    });
+
+    it('reads the analyzed commit\'s files, not the working tree', async () => {
+      repo.commit({ 'package.json': PLAYWRIGHT_PACKAGE, 'tests/a.spec.ts': `${TEST_IMPORT}test('old title', async () => {});\n` });
+      const sha = repo.commit({ 'tests/a.spec.ts': `${TEST_IMPORT}test('committed title', async () => {});\n` });
+      repo.write({ 'tests/a.spec.ts': `${TEST_IMPORT}test('uncommitted title', async () => {});\n` });
+
+      expect(await select(sha)).toEqual(expect.arrayContaining([expect.stringContaining('committed title')]));
+      expect((await select(sha)).join('\n')).not.toContain('uncommitted');
+    });
+
+    it('lists every test in the all mode', async () => {
+      repo.commit({
+        'package.json': PLAYWRIGHT_PACKAGE,
+        'tests/a.spec.ts': `${TEST_IMPORT}test('a', async () => {});\n`,
+        'helpers/a.ts': 'export const a = 1;\n',
+      });
+
+      const report = await selectTests({ repo: repo.path, mode: 'all', cache: false });
+      expect(listSelected(report)).toEqual(['DIRECT tests/a.spec.ts: a']);
+    });
+  });
+});
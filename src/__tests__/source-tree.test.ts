@@ -0,0 +1,51 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { WorkingTreeSource } from '../source-tree';
+import { TestRepo } from './support/git-repo';
+
+describe('WorkingTreeSource', () => {
+  let repo: TestRepo;
+
+  beforeEach(() => {
+    repo = new TestRepo();
+  });
+
+  afterEach(() => repo.remove());
+
+  it('lists the tracked and untracked files git doesn\'t ignore', async () => {
+    repo.commit({ '.gitignore': 'dist/\n', 'src/a.ts': 'export const a = 1;\n' });
+    repo.write({ 'src/b.ts': 'export const b = 2;\n', 'dist/a.js': 'exports.a = 1;\n' });
+
+    expect((await new WorkingTreeSource(repo.path).listFiles()).sort()).toEqual(['.gitignore', 'src/a.ts', 'src/b.ts']);
+  });
+
+  it('walks the directory outside a git repository', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'smart-test-plain-'));
+    try {
+      fs.mkdirSync(path.join(directory, 'src'));
+      fs.writeFileSync(path.join(directory, 'src', 'a.ts'), 'export const a = 1;\n');
+
+      expect(await new WorkingTreeSource(directory).listFiles()).toEqual(['src/a.ts']);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('reads many files, omitting the missing ones', async () => {
+    const files = Object.fromEntries(Array.from({ length: 100 }, (_, index) => [`src/file${index}.ts`, `export const n = ${index};\n`]));
+    repo.write(files);
+
+    const contents = await new WorkingTreeSource(repo.path).readFiles([...Object.keys(files), 'src/deleted.ts']);
+    expect(contents.size).toBe(100);
+    expect(contents.get('src/file42.ts')).toBe('export const n = 42;\n');
+    expect(contents.has('src/deleted.ts')).toBe(false);
+  });
+
+  it('reports the files it fails to read', async () => {
+    fs.mkdirSync(path.join(repo.path, 'src', 'dir.ts'), { recursive: true });
+
+    await expect(new WorkingTreeSource(repo.path).readFiles(['src/dir.ts'])).rejects.toThrow('Failed to read src/dir.ts');
+  });
+});
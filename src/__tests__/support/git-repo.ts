@@ -0,0 +1,77 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnalysisReport } from '../../types';
+
+/**
+ * A throwaway git repository for tests, in the system temp directory.
+ */
+export class TestRepo {
+  readonly path: string;
+
+  constructor() {
+    this.path = fs.mkdtempSync(path.join(os.tmpdir(), 'smart-test-'));
+    this.git('init', '--quiet', '--initial-branch=main');
+    this.git('config', 'user.email', 'test@example.com');
+    this.git('config', 'user.name', 'Test');
+    this.git('config', 'commit.gpgsign', 'false');
+  }
+
+  /**
+   * Writes files (relative to the repo root), creating their directories.
+   * @param files - The contents per path; null deletes the file
+   */
+  write(files: Record<string, string | null>): void {
+    for (const [file, content] of Object.entries(files)) {
+      const filePath = path.join(this.path, file);
+      if (content === null) {
+        fs.rmSync(filePath, { force: true });
+        continue;
+      }
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, content);
+    }
+  }
+
+  /**
+   * Writes files and commits every change of the working tree.
+   * @param files - The contents per path; null deletes the file
+   * @param message - The commit message
+   * @returns The commit SHA
+   */
+  commit(files: Record<string, string | null>, message = 'change'): string {
+    this.write(files);
+    this.git('add', '-A');
+    this.git('commit', '--quiet', '--allow-empty', '-m', message);
+    return this.git('rev-parse', 'HEAD');
+  }
+
+  /**
+   * Runs a git command in the repo.
+   * @param args - The git arguments
+   * @returns The trimmed output
+   */
+  git(...args: string[]): string {
+    return execFileSync('git', args, { cwd: this.path, encoding: 'utf-8' }).trim();
+  }
+
+  /** Deletes the repo */
+  remove(): void {
+    fs.rmSync(this.path, { recursive: true, force: true });
+  }
+}
+
+/** The package.json of a Playwright project */
+export const PLAYWRIGHT_PACKAGE = JSON.stringify({ devDependencies: { '@playwright/test': '^1.40.0' } });
+
+/**
+ * Lists the selected tests of a report, one "<impact type> <file>: <full title>" line each.
+ * @param report - The analysis report
+ * @returns The lines, sorted
+ */
+export function listSelected(report: AnalysisReport): string[] {
+  return report.fileResults
+    .flatMap(fileResult => fileResult.tests.map(test => `${test.impactType} ${test.fileName}: ${test.testName}`))
+    .sort();
+}
@@ -0,0 +1,27 @@
+import { Project, SourceFile } from 'ts-morph';
+
+/**
+ * Creates an in-memory project holding the given files.
+ *
+ * @param files - The contents per absolute path
+ * @returns The project
+ */
+export function createProject(files: Record<string, string>): Project {
+  const project = new Project({ useInMemoryFileSystem: true, compilerOptions: { allowJs: true } });
+  for (const [filePath, content] of Object.entries(files)) {
+    project.createSourceFile(filePath, content);
+  }
+  return project;
+}
+
+/**
+ * Creates an in-memory project holding the given files and returns one of them.
+ *
+ * @param filePath - The absolute path of the file to return
+ * @param content - Its content
+ * @param otherFiles - Files it may import, by absolute path
+ * @returns The source file
+ */
+export function createSourceFile(filePath: string, content: string, otherFiles: Record<string, string> = {}): SourceFile {
+  return createProject({ ...otherFiles, [filePath]: content }).getSourceFileOrThrow(filePath);
+}
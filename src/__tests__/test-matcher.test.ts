@@ -0,0 +1,38 @@
+import { describe, expect, it } from '@jest/globals';
+import { TestCandidate, TestMatcher } from '../test-matcher';
+
+const LOGIN_BODY = "await page.goto('/login');\nawait page.fill('#user', 'ann');\nawait page.click('text=Sign in');";
+
+function candidate(filePath: string, name: string, body: string): TestCandidate {
+  return { filePath, test: { name, body } };
+}
+
+describe('TestMatcher', () => {
+  const matcher = new TestMatcher();
+
+  it('pairs a removed test with the added test that has the same body', () => {
+    const removed = candidate('tests/a.spec.ts', 'logs in', LOGIN_BODY);
+    const added = candidate('tests/a.spec.ts', 'signs in', LOGIN_BODY);
+    const unrelated = candidate('tests/a.spec.ts', 'logs out', "await page.click('text=Sign out');");
+
+    expect(matcher.match([removed], [unrelated, added])).toEqual([{ removed, added, similarity: 1 }]);
+  });
+
+  it('ignores formatting and tolerates small edits', () => {
+    const reformatted = LOGIN_BODY.replace(/\n/g, ' ').replace("'ann'", "'bob'");
+
+    expect(matcher.getSimilarity(LOGIN_BODY, reformatted)).toBeGreaterThanOrEqual(0.8);
+    expect(matcher.getSimilarity(LOGIN_BODY, "expect(1).toBe(1);")).toBeLessThan(0.8);
+    expect(matcher.getSimilarity('', '')).toBe(0);
+  });
+
+  it('matches each test once, preferring the same file on ties', () => {
+    const removed = candidate('tests/a.spec.ts', 'logs in', LOGIN_BODY);
+    const moved = candidate('tests/b.spec.ts', 'logs in', LOGIN_BODY);
+    const renamed = candidate('tests/a.spec.ts', 'signs in', LOGIN_BODY);
+
+    const matches = matcher.match([removed], [moved, renamed]);
+    expect(matches).toHaveLength(1);
+    expect(matches[0]?.added).toBe(renamed);
+  });
+});
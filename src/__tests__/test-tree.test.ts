@@ -0,0 +1,156 @@
+import { describe, expect, it } from '@jest/globals';
+import { createFrameworkAdapter } from '../frameworks';
+import { TestTreeBuilder } from '../test-tree';
+import { createSourceFile } from './support/project';
+
+const PLAYWRIGHT_IMPORT = "import { test } from '@playwright/test';\n";
+
+/**
+ * Builds the test tree of a spec and returns its tests' names and dynamic flags.
+ */
+function getTests(content: string, builder = new TestTreeBuilder(), otherFiles: Record<string, string> = {}) {
+  const root = builder.build(createSourceFile('/repo/tests/a.spec.ts', content, otherFiles));
+  return builder.getAllTests(root).map(test => ({ name: test.name, isDynamic: test.isDynamic }));
+}
+
+describe('TestTreeBuilder', () => {
+  it('names tests by their describe titles and collects hooks per describe', () => {
+    const builder = new TestTreeBuilder();
+    const root = builder.build(createSourceFile('/repo/tests/a.spec.ts', `${PLAYWRIGHT_IMPORT}
+test.beforeEach(async () => {});
+test.describe('Cart', () => {
+  test.use({ locale: 'de' });
+  test.describe.serial('checkout', () => {
+    test.afterAll(async () => {});
+    test('pays', async () => {
+      await test.step('not a test', async () => {});
+    });
+  });
+  test('adds', async () => {});
+});
+test('top level', async () => {});
+`));
+
+    expect(builder.getAllTests(root).map(test => test.titlePath)).toEqual([
+      ['top level'],
+      ['Cart', 'adds'],
+      ['Cart', 'checkout', 'pays'],
+    ]);
+    expect(root.scopeBlocks.map(block => block.name)).toEqual(['test.beforeEach']);
+
+    const [cart] = root.suites;
+    expect(cart?.scopeBlocks).toEqual([expect.objectContaining({ kind: 'config', name: 'test.use' })]);
+    expect(cart?.suites[0]?.scopeBlocks).toEqual([expect.objectContaining({ kind: 'hook', name: 'test.afterAll' })]);
+    expect(cart?.suites[0]?.tests[0]?.name).toBe('Cart > checkout > pays');
+  });
+
+  it('evaluates constant titles, including imported constants and enum members', () => {
+    const tests = getTests(`${PLAYWRIGHT_IMPORT}
+import { ROLE, Role } from '../consts';
+const PREFIX = 'login as';
+test(\`\${PREFIX} \${ROLE}\`, async () => {});
+test('as ' + Role.Guest, async () => {});
+test(\`random \${Math.random()}\`, async () => {});
+`, new TestTreeBuilder(), {
+      '/repo/consts.ts': "export const ROLE = 'admin';\nexport enum Role { Guest = 'guest' }\n",
+    });
+
+    expect(tests).toEqual([
+      { name: 'login as admin', isDynamic: false },
+      { name: 'as guest', isDynamic: false },
+      { name: expect.stringContaining('random'), isDynamic: true },
+    ]);
+  });
+
+  it('unrolls for-of loops and forEach calls over static arrays', () => {
+    const tests = getTests(`${PLAYWRIGHT_IMPORT}
+const USERS = [{ name: 'ann' }, { name: 'bob' }];
+for (const user of USERS) {
+  test(\`logs in \${user.name}\`, async () => {});
+}
+['a', 'b'].forEach((letter, index) => {
+  test(\`letter \${letter} #\${index}\`, async () => {});
+});
+`);
+
+    expect(tests).toEqual([
+      { name: 'logs in ann', isDynamic: false },
+      { name: 'logs in bob', isDynamic: false },
+      { name: 'letter a #0', isDynamic: false },
+      { name: 'letter b #1', isDynamic: false },
+    ]);
+  });
+
+  it('keeps a loop over a non-static array as one dynamic test', () => {
+    const tests = getTests(`${PLAYWRIGHT_IMPORT}
+for (const user of loadUsers()) {
+  test(\`logs in \${user.name}\`, async () => {});
+}
+`);
+
+    expect(tests).toEqual([{ name: expect.stringContaining('logs in'), isDynamic: true }]);
+  });
+
+  it('unrolls Jest each tables with printf and pretty-printed $property titles', () => {
+    const builder = new TestTreeBuilder(createFrameworkAdapter('jest'));
+    const tests = getTests(`
+describe.each([{ unit: 'kg' }, { unit: 'lb' }])('in $unit', ({ unit }) => {
+  test.each([[1, 2, 3], [2, 2, 4]])('adds %i + %i', (a, b, sum) => {});
+});
+`, builder);
+
+    expect(tests.map(test => test.name)).toEqual([
+      'in "kg" > adds 1 + 2',
+      'in "kg" > adds 2 + 2',
+      'in "lb" > adds 1 + 2',
+      'in "lb" > adds 2 + 2',
+    ]);
+  });
+
+  it('unrolls tagged-template each tables, and keeps a dynamic entry for non-static ones', () => {
+    const builder = new TestTreeBuilder(createFrameworkAdapter('jest'));
+    const tests = getTests(`
+test.each\`
+  a    | b    | sum
+  \${1} | \${2} | \${3}
+  \${2} | \${2} | \${4}
+\`('adds $a + $b', ({ a, b, sum }) => {});
+test.each\`
+  value
+  \${getValue()}
+\`('reads $value', ({ value }) => {});
+`, builder);
+
+    expect(tests).toEqual([
+      { name: 'adds 1 + 2', isDynamic: false },
+      { name: 'adds 2 + 2', isDynamic: false },
+      { name: "[dynamic: 'reads $value']", isDynamic: true },
+    ]);
+  });
+
+  it('classifies calls through custom wrappers resolved to the framework test', () => {
+    const tests = getTests(`
+import { apiTest } from '../fixtures';
+const smoke = apiTest;
+smoke.describe('API', () => {
+  smoke('lists users', async () => {});
+});
+notATest('ignored', async () => {});
+`, new TestTreeBuilder(), {
+      '/repo/fixtures.ts': "import { test as base } from '@playwright/test';\nexport const apiTest = base.extend({});\n",
+    });
+
+    expect(tests).toEqual([{ name: 'API > lists users', isDynamic: false }]);
+  });
+
+  it('collects tags from titles, describes and the tag option', () => {
+    const builder = new TestTreeBuilder();
+    const root = builder.build(createSourceFile('/repo/tests/a.spec.ts', `${PLAYWRIGHT_IMPORT}
+test.describe('Checkout @smoke', () => {
+  test('pays', { tag: '@payments' }, async () => {});
+});
+`));
+
+    expect(builder.getAllTests(root)[0]?.tags.sort()).toEqual(['@payments', '@smoke']);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from '@jest/globals';
+import { TriggerRuleEngine } from '../trigger-rules';
+
+describe('TriggerRuleEngine', () => {
+  it('fires the first matching rule per file, in rule order', () => {
+    const engine = new TriggerRuleEngine([
+      { name: 'manifest-ignored', files: ['package.json'], action: 'ignore' },
+      { files: ['**/playwright.config.ts'], action: 'run-all' },
+      { name: 'admin', files: ['src/admin/**'], action: 'project', project: 'admin' },
+      { name: 'manifest', files: ['package.json'], action: 'run-all' },
+    ]);
+
+    expect(engine.evaluate(['src/admin/users.ts', 'package.json', 'playwright.config.ts', 'README.md'])).toEqual([
+      { name: 'manifest-ignored', action: 'ignore', files: ['package.json'] },
+      { name: '**/playwright.config.ts', action: 'run-all', files: ['playwright.config.ts'] },
+      { name: 'admin', action: 'project', project: 'admin', files: ['src/admin/users.ts'] },
+    ]);
+  });
+
+  it('fires nothing when no rule matches', () => {
+    expect(new TriggerRuleEngine([{ files: ['.env'], action: 'run-all' }]).evaluate(['src/app.ts'])).toEqual([]);
+  });
+});
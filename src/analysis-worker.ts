@@ -0,0 +1,68 @@
+import { parentPort, workerData } from 'worker_threads';
+import { Analyzer } from './analyzer';
+import { GitService } from './git';
+import { createSourceTree } from './source-tree';
+import { createFrameworkAdapter } from './frameworks';
+import { AnalysisCache } from './cache';
+import { Profiler } from './profiler';
+import { TestCandidate } from './test-matcher';
+import { AnalysisWorkerResult, AnalysisWorkerTask } from './parallel';
+
+/**
+ * Worker thread entry (see analyzeInWorkers): analyzes a share of the changed files
+ * with its own analyzer and posts the analyses back to the main thread.
+ *
+ * The worker reads the cache but never writes it: its new entries are posted back,
+ * and the main thread saves them with its own.
+ *
+ * @param task - The worker's task
+ * @returns The worker's result
+ */
+async function run(task: AnalysisWorkerTask): Promise<AnalysisWorkerResult> {
+  const gitService = new GitService(task.repoPath);
+  const cache = task.cacheDir ? AnalysisCache.open(task.cacheDir) : null;
+  const profiler = new Profiler();
+  const analyzer = new Analyzer(
+    task.repoPath,
+    createSourceTree(task.sourceTree, task.repoPath, gitService),
+    createFrameworkAdapter(task.framework, task.frameworkOptions),
+    task.config,
+    cache,
+    profiler
+  );
+
+  const analyses = await profiler.measureAsync('selection', () => analyzer.analyzeChangedFiles(
+    task.changedFiles,
+    task.prevCommitSha,
+    task.prevCommitSha ? gitService : null
+  ));
+
+  // Test blocks hold AST nodes, which can't be posted - matching only needs the title and body
+  const toMessage = (candidate: TestCandidate): TestCandidate => ({
+    ...candidate,
+    test: { name: candidate.test.name, body: candidate.test.body },
+  });
+
+  return {
+    analyses: analyses.map(analysis => ({
+      fileResults: analysis.fileResults,
+      testHistory: {
+        removed: analysis.testHistory.removed.map(toMessage),
+        added: analysis.testHistory.added.map(toMessage),
+      },
+    })),
+    cacheUpdates: cache?.getUpdates() ?? null,
+    timings: profiler.getTimings(),
+  };
+}
+
+// A failure surfaces as the worker's 'error' event, and the main thread analyzes the files itself.
+// Rethrowing from the next tick turns the rejection into an uncaught exception, which emits
+// 'error' whatever the process's unhandled rejection mode is
+void run(workerData as AnalysisWorkerTask)
+  .then(result => parentPort?.postMessage(result))
+  .catch((error: unknown) => {
+    setImmediate(() => {
+      throw error;
+    });
+  });
@@ -1,20 +1,74 @@
-import { Project, SourceFile, SyntaxKind } from 'ts-morph';
+import { InMemoryFileSystemHost, Node, Project, SourceFile, ts } from 'ts-morph';
 import * as path from 'path';
-import { FileDiff, ImpactedTest, FileAnalysisResult, AnalysisReport, ImpactType } from './types';
+import {
+  FileDiff,
+  ImpactedTest,
+  FileAnalysisResult,
+  AnalysisReport,
+  ImpactReason,
+  ImpactType,
+  ImportGraph,
+  ImportGraphNode,
+  LineRange,
+  Logger,
+  TriggeredRule,
+} from './types';
 import { GitService } from './git';
+import { GitTreeSource, SourceTree, WorkingTreeSource } from './source-tree';
+import { SymbolImpactAnalyzer } from './symbol-impact';
+import { ModuleResolver, SOURCE_EXTENSIONS } from './module-resolver';
+import { FixtureAnalyzer, FixtureDefinition } from './fixtures';
+import { ScopeBlockInfo, SuiteBlockInfo, TestBlockInfo, TestTreeBuilder } from './test-tree';
+import { TestCandidate, TestMatch, TestMatcher } from './test-matcher';
+import { createFrameworkAdapter, FrameworkAdapter } from './frameworks';
+import { DEFAULT_EXCLUDE, matchesAny, SmartTestConfig } from './config';
+import { TriggerRuleEngine } from './trigger-rules';
+import { DataFileAnalyzer, DataFileReference } from './data-files';
+import { AnalysisCache, CACHE_VERSION, CachedFileInfo, CachedTestBlock, getBlobSha, hashParts, TOOL_VERSION } from './cache';
+import { Profiler } from './profiler';
+import { analyzeInWorkers } from './parallel';
 
 /**
- * Represents extracted test block information including dynamic detection.
+ * The tests that disappeared and appeared across the analyzed change,
+ * collected to detect renamed and moved tests.
  */
-interface TestBlockInfo {
-  name: string;
-  startLine: number;
-  endLine: number;
-  /**
-   * True if the test name uses template literals with variables (${...}).
-   * These cannot be safely grepped and require File Mode.
-   */
-  isDynamic: boolean;
+export interface TestHistory {
+  removed: TestCandidate[];
+  added: TestCandidate[];
+}
+
+/**
+ * The analysis of one changed file, before the results of all files are merged.
+ */
+export interface ChangedFileAnalysis {
+  /** The spec results the file selects tests in (a spec may appear more than once) */
+  fileResults: FileAnalysisResult[];
+  /** The tests the file's change removed and added */
+  testHistory: TestHistory;
+}
+
+/**
+ * The files reached by the transitive importer search from a changed source file.
+ */
+interface DependentFiles {
+  /** Test files that depend on the changed file */
+  testFiles: string[];
+  /** Non-test files on the import paths between the changed file and the tests */
+  intermediateFiles: string[];
+  /** The import path from the changed file to each test file (both ends included) */
+  importPaths: Map<string, string[]>;
+}
+
+/**
+ * The symbol-level impact of a source file change.
+ */
+interface DependencyImpact {
+  /** Declarations affected by the change, in the changed file and the helpers in between */
+  declarations: Set<Node>;
+  /** Names of the fixtures affected by the change (including fixtures depending on them) */
+  fixtures: Set<string>;
+  /** The changed file and the helpers in between (absolute paths) */
+  files: Set<string>;
 }
 
 /**
@@ -23,126 +77,443 @@ interface TestBlockInfo {
  * 2. Find tests impacted by dependency changes (Dependency Logic)
  * 3. Detect dynamic test names that cannot be grepped
  * 4. Detect REMOVED tests by comparing current vs previous commit
+ * 
+ * All files are read from a SourceTree (commit, index or working tree) into an
+ * in-memory project, so line numbers from the diff always match the parsed contents.
  */
 export class Analyzer {
   private project: Project;
   private repoPath: string;
+  private sourceTree: SourceTree;
+  private isSourceTreeLoaded = false;
+  /** Blob SHAs of the snapshot's code files, by absolute path (parsed on first use) */
+  private blobShas = new Map<string, string>();
+  /** Hash of the tsconfig files and settings test extraction depends on */
+  private settingsKey = '';
+  private cache: AnalysisCache | null;
+  /** File infos of this run, from the cache or parsed */
+  private fileInfos = new Map<string, CachedFileInfo>();
+  private symbolImpact = new SymbolImpactAnalyzer();
+  private moduleResolver: ModuleResolver;
+  private fixtureAnalyzer: FixtureAnalyzer;
+  private framework: FrameworkAdapter;
+  private config: SmartTestConfig;
+  private triggerRules: TriggerRuleEngine;
+  private testTreeBuilder: TestTreeBuilder;
+  private testMatcher = new TestMatcher();
+  private dataFileAnalyzer: DataFileAnalyzer;
+  /** Analyzer over the parent commit's tree, for files the analyzed change deletes */
+  private baseAnalyzer: Analyzer | null = null;
+  /** All fixture definitions of the project, collected on first use */
+  private fixtureDefinitions: FixtureDefinition[] | null = null;
+  /** Data file references per file, collected on first use */
+  private dataFileReferences = new Map<string, DataFileReference[]>();
+  /** The direct importers of each code file (absolute paths), built on first use */
+  private importerIndex: Map<string, string[]> | null = null;
+  private profiler: Profiler;
+  private logger: Logger;
 
-  constructor(repoPath: string) {
+  /**
+   * @param repoPath - The repository root
+   * @param sourceTree - The snapshot to read files from (defaults to the files on disk)
+   * @param framework - The test framework the repo's tests are written for
+   * @param config - The project settings (excludes, helper roots, tsconfig, run-all triggers)
+   * @param cache - The persistent cache of per-file results (null to parse every file used)
+   * @param profiler - The profiler the time of each phase is charged to (--profile)
+   * @param logger - Receives the warnings of degraded analyses (workers failing)
+   */
+  constructor(
+    repoPath: string,
+    sourceTree: SourceTree = new WorkingTreeSource(repoPath),
+    framework: FrameworkAdapter = createFrameworkAdapter('playwright'),
+    config: SmartTestConfig = {},
+    cache: AnalysisCache | null = null,
+    profiler: Profiler = new Profiler(),
+    logger: Logger = { info: () => {}, warn: () => {} }
+  ) {
     this.repoPath = repoPath;
-    this.project = new Project({
-      tsConfigFilePath: path.join(repoPath, 'tsconfig.json'),
-      skipAddingFilesFromTsConfig: true,
-    });
+    this.sourceTree = sourceTree;
+    this.framework = framework;
+    this.config = config;
+    this.cache = cache;
+    this.profiler = profiler;
+    this.logger = logger;
+    this.triggerRules = new TriggerRuleEngine([
+      ...(config.triggers ?? []),
+      ...(config.runAllOn ? [{ name: 'runAllOn', files: config.runAllOn, action: 'run-all' as const }] : []),
+      ...framework.defaultTriggers,
+    ]);
+    this.testTreeBuilder = new TestTreeBuilder(framework);
+    this.fixtureAnalyzer = new FixtureAnalyzer(framework);
+    this.dataFileAnalyzer = new DataFileAnalyzer(repoPath, framework.dataFileOptions);
+    this.project = new Project({ useInMemoryFileSystem: true });
+    this.moduleResolver = new ModuleResolver(this.project, filePath => this.getFileInfo(filePath).imports);
   }
 
   /**
-   * Checks if a file is a test file based on naming convention.
+   * Checks if a file is analyzable source code (TypeScript or JavaScript, JSX included).
    * @param filePath - The file path to check
-   * @returns True if the file is a test file
+   * @returns True if the file should be parsed
    */
-  private isTestFile(filePath: string): boolean {
-    return filePath.endsWith('.spec.ts') || filePath.endsWith('.test.ts');
+  private isCodeFile(filePath: string): boolean {
+    return SOURCE_EXTENSIONS.includes(path.extname(filePath).slice(1));
   }
 
   /**
-   * Extracts test blocks (test(), it(), describe()) from a source file.
-   * Uses AST to find CallExpressions with test-related function names.
+   * Loads every source file of the snapshot into an in-memory ts-morph project.
    * 
-   * Dynamic Test Name Detection:
-   * - Detects NoSubstitutionTemplateLiteral (backticks without variables)
-   * - Detects TemplateExpression (backticks WITH variables like ${id})
-   * - Template expressions with variables are marked as isDynamic: true
+   * Why in-memory: The checked-out files may belong to a different commit than the one
+   * being analyzed. Reading from the SourceTree guarantees the hunk line numbers are
+   * matched against the right contents. tsconfig files are copied too, so compiler
+   * options (paths, baseUrl, ...) match the snapshot as well.
    * 
-   * @param sourceFile - The ts-morph SourceFile to analyze
-   * @returns Array of test information with name, line range, and dynamic flag
+   * Performance: All blobs are fetched in one batch and the tree is loaded only once per run.
+   * Files are parsed on first use (see getSourceFile): the import graph, fixture names and
+   * spec tests of unchanged files come from the cache.
    */
+  private async loadSourceTree(): Promise<void> {
+    if (this.isSourceTreeLoaded) {
+      return;
+    }
+    this.isSourceTreeLoaded = true;
+
+    const allFiles = await this.profiler.measureAsync('git', () => this.sourceTree.listFiles());
+    const codeFiles = allFiles.filter(filePath =>
+      this.isCodeFile(filePath) && !this.isExcludedFile(path.resolve(this.repoPath, filePath))
+    );
+    const configFiles = allFiles.filter(filePath =>
+      /(^|\/)tsconfig[^/]*\.json$/.test(filePath) || filePath === this.config.tsconfig
+    );
+
+    const contents = await this.profiler.measureAsync('git', () =>
+      this.sourceTree.readFiles([...configFiles, ...codeFiles])
+    );
+
+    this.profiler.measure('parse', () => this.createSnapshotProject(contents, codeFiles, configFiles));
+  }
+
   /**
-   * Helper to check if an expression is a test function call.
-   * Matches: test, test.only, test.describe, test.skip, it, it.only, describe, describe.only, etc.
+   * Creates the in-memory project over the snapshot's files and records their blob SHAs.
    * 
-   * @param text - The expression text to check
-   * @returns True if this is a test function call
+   * @param contents - The contents of the code and tsconfig files
+   * @param codeFiles - The code files, relative to the repo root
+   * @param configFiles - The tsconfig files, relative to the repo root
    */
-  private isTestFunction(text: string): boolean {
-    // Exact matches
-    if (['test', 'it', 'describe'].includes(text)) {
-      return true;
+  private createSnapshotProject(contents: Map<string, string>, codeFiles: string[], configFiles: string[]): void {
+    const fileSystem = new InMemoryFileSystemHost();
+    for (const [filePath, content] of contents) {
+      fileSystem.writeFileSync(path.resolve(this.repoPath, filePath), content);
     }
-    // Match test.*, it.*, describe.* patterns (test.only, test.describe, it.skip, etc.)
-    if (text.startsWith('test.') || text.startsWith('it.') || text.startsWith('describe.')) {
-      return true;
+
+    this.project = this.createProject(fileSystem);
+    this.moduleResolver = new ModuleResolver(this.project, filePath => this.getFileInfo(filePath).imports);
+
+    for (const filePath of codeFiles) {
+      const content = contents.get(filePath);
+      if (content !== undefined) {
+        const blobSha = getBlobSha(content);
+        this.blobShas.set(path.resolve(this.repoPath, filePath), blobSha);
+        this.cache?.track(filePath, blobSha);
+      }
     }
-    return false;
+
+    // Test titles depend on the compiler options, on what counts as a test and on the extraction itself
+    this.settingsKey = hashParts([
+      `tool:${TOOL_VERSION}`,
+      `version:${CACHE_VERSION}`,
+      ...configFiles.map(filePath => `${filePath}:${contents.get(filePath) ?? ''}`),
+      JSON.stringify(this.config),
+      this.framework.name,
+      ...this.framework.testFileGlobs,
+      ...this.framework.extraTestCallees,
+    ]);
   }
 
   /**
-   * Helper to safely extract test names from different syntax types.
-   * Handles StringLiteral, NoSubstitutionTemplateLiteral, and TemplateExpression.
+   * Returns a snapshot file as a ts-morph SourceFile, parsing it on first use.
    * 
-   * @param args - The arguments array from the call expression
-   * @returns Object with testName and isDynamic flag, or undefined if no valid name
+   * @param filePath - The absolute file path
+   * @returns The source file, or undefined if the snapshot has no such code file
    */
-  private getTestName(args: ReturnType<typeof this.project.getSourceFiles>[0]['getDescendantsOfKind'] extends (kind: SyntaxKind) => infer R ? R : never): { name: string; isDynamic: boolean } | undefined {
-    if (args.length === 0) return undefined;
-    const nameNode = args[0];
-    if (!nameNode) return undefined;
+  private getSourceFile(filePath: string): SourceFile | undefined {
+    const normalizedPath = path.resolve(filePath);
+    return this.project.getSourceFile(normalizedPath) ??
+      (this.blobShas.has(normalizedPath)
+        ? this.profiler.measure('parse', () => this.project.addSourceFileAtPath(normalizedPath))
+        : undefined);
+  }
 
-    const argKind = nameNode.getKind();
+  /**
+   * Returns what a file imports, exports and defines as fixtures:
+   * from the cache when its blob was analyzed before, else from parsing it.
+   * 
+   * @param filePath - The absolute file path
+   * @returns The file info
+   */
+  private getFileInfo(filePath: string): CachedFileInfo {
+    const normalizedPath = path.resolve(filePath);
+    const known = this.fileInfos.get(normalizedPath);
+    if (known) {
+      return known;
+    }
 
-    // Case 1: Simple quotes 'test name' or "test name"
-    if (argKind === SyntaxKind.StringLiteral) {
-      return { name: nameNode.getText().slice(1, -1), isDynamic: false };
+    const blobSha = this.blobShas.get(normalizedPath);
+    let info = blobSha ? this.cache?.getFileInfo(blobSha) : undefined;
+    if (!info) {
+      const sourceFile = this.getSourceFile(normalizedPath);
+      info = this.profiler.measure('parse', (): CachedFileInfo => sourceFile
+        ? {
+          imports: this.moduleResolver.findModuleReferences(sourceFile),
+          exports: this.moduleResolver.findExportNames(sourceFile),
+          fixtures: this.fixtureAnalyzer.findFixtureDefinitions(sourceFile).map(definition => definition.name),
+        }
+        : { imports: [], exports: [], fixtures: [] });
+      if (blobSha) {
+        this.cache?.setFileInfo(blobSha, info);
+      }
     }
 
-    // Case 2: Backticks with NO variables `test name`
-    if (argKind === SyntaxKind.NoSubstitutionTemplateLiteral) {
-      return { name: nameNode.getText().slice(1, -1), isDynamic: false };
+    this.fileInfos.set(normalizedPath, info);
+    return info;
+  }
+
+  /**
+   * Computes the cache key of a spec's tests: the blob SHAs of the spec and of every
+   * project file it imports, directly or transitively (constants and wrappers used by
+   * its titles live there), plus the settings.
+   * 
+   * @param filePath - The absolute spec path
+   * @returns The key
+   */
+  private getTestsKey(filePath: string): string {
+    const visited = new Set<string>([path.resolve(filePath)]);
+    const queue = [path.resolve(filePath)];
+    const parts = [this.settingsKey];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      parts.push(`${path.relative(this.repoPath, current)}:${this.blobShas.get(current) ?? ''}`);
+      for (const dependency of this.moduleResolver.getDependencies(current)) {
+        if (!visited.has(dependency)) {
+          visited.add(dependency);
+          queue.push(dependency);
+        }
+      }
     }
 
-    // Case 3: Backticks WITH variables `test ${id}` (The Hero Fix!)
-    // We return the raw text structure so we count it, even if we can't resolve the variable
-    if (argKind === SyntaxKind.TemplateExpression) {
-      // .getText() returns `test ${id}`, we strip the backticks
-      return { name: nameNode.getText().replace(/^`|`$/g, ''), isDynamic: true };
+    return hashParts(parts);
+  }
+
+  /**
+   * Returns the tests of specs, from the cache when neither a spec nor anything it
+   * imports changed since they were cached.
+   * 
+   * The specs missing from the cache are all parsed before any is analyzed:
+   * adding a file to the project discards the type checker, so interleaving would
+   * rebuild it once per spec.
+   * 
+   * @param filePaths - The absolute spec paths
+   * @returns The tests by spec path
+   */
+  private getSpecTests(filePaths: string[]): Map<string, CachedTestBlock[]> {
+    const testsByFile = new Map<string, CachedTestBlock[]>();
+    const keys = new Map<string, string>();
+
+    for (const filePath of filePaths) {
+      const key = this.cache ? this.profiler.measure('graph', () => this.getTestsKey(filePath)) : '';
+      const cached = this.cache?.getTests(path.relative(this.repoPath, filePath), key);
+      if (cached) {
+        testsByFile.set(filePath, cached);
+      } else {
+        keys.set(filePath, key);
+      }
     }
 
-    // Case 4: Other expressions (variables, function calls) - treat as dynamic
-    return { name: `[dynamic: ${nameNode.getText()}]`, isDynamic: true };
+    const uncachedFiles = Array.from(keys.keys());
+    uncachedFiles.forEach(filePath => this.getSourceFile(filePath));
+
+    for (const filePath of uncachedFiles) {
+      const sourceFile = this.getSourceFile(filePath);
+      const tests = sourceFile
+        ? this.profiler.measure('parse', () => this.extractTestBlocks(sourceFile)).map(testBlock => ({
+          name: testBlock.name,
+          titlePath: testBlock.titlePath,
+          isDynamic: testBlock.isDynamic,
+          tags: testBlock.tags,
+        }))
+        : [];
+      this.cache?.setTests(path.relative(this.repoPath, filePath), keys.get(filePath) ?? '', tests);
+      testsByFile.set(filePath, tests);
+    }
+
+    // In the order asked for, whichever specs came from the cache
+    return new Map(filePaths.map(filePath => [filePath, testsByFile.get(filePath) ?? []]));
+  }
+
+  /**
+   * Creates the ts-morph project on top of the snapshot's file system,
+   * using the snapshot's tsconfig.json (or the configured tsconfig) when it exists and can be parsed.
+   * 
+   * `allowJs` is always on, so JavaScript helpers and specs are resolved and bound
+   * like TypeScript ones. `.tsx`/`.jsx` files are parsed as JSX based on their extension.
+   * 
+   * @param fileSystem - The in-memory file system holding the snapshot
+   * @returns The project to analyze with
+   */
+  private createProject(fileSystem: InMemoryFileSystemHost): Project {
+    const tsConfigFilePath = path.resolve(this.repoPath, this.config.tsconfig ?? 'tsconfig.json');
+
+    if (fileSystem.fileExistsSync(tsConfigFilePath)) {
+      try {
+        return new Project({
+          fileSystem,
+          tsConfigFilePath,
+          skipAddingFilesFromTsConfig: true,
+          compilerOptions: { allowJs: true },
+        });
+      } catch {
+        // Unparseable tsconfig or an `extends` we can't follow (e.g. from node_modules)
+      }
+    }
+
+    return new Project({ fileSystem, compilerOptions: { allowJs: true, jsx: ts.JsxEmit.Preserve } });
   }
 
+  /**
+   * Checks if a file is a test file of the framework.
+   * @param filePath - The file path to check (absolute or relative to the repo root)
+   * @returns True if the file is a test file
+   */
+  private isTestFile(filePath: string): boolean {
+    return this.framework.isTestFile(path.relative(this.repoPath, path.resolve(this.repoPath, filePath)));
+  }
+
+  /**
+   * Extracts the tests of a source file, with their full describe title paths.
+   * Describe blocks and hooks are part of the tree but are not tests themselves.
+   * 
+   * @param sourceFile - The ts-morph SourceFile to analyze
+   * @returns Array of test information with name, line range, and dynamic flag
+   */
   private extractTestBlocks(sourceFile: SourceFile): TestBlockInfo[] {
-    const testBlocks: TestBlockInfo[] = [];
-    
-    // Find all call expressions
-    const callExpressions = sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression);
-    
-    for (const callExpr of callExpressions) {
-      const expression = callExpr.getExpression();
-      const functionName = expression.getText();
-      
-      // Check if this is a test function (test, it, describe, test.only, test.describe, etc.)
-      if (this.isTestFunction(functionName)) {
-        const args = callExpr.getArguments();
-        
-        // Use the helper to extract test name
-        const testNameResult = this.getTestName(args);
-        
-        if (testNameResult) {
-          const startLine = callExpr.getStartLineNumber();
-          const endLine = callExpr.getEndLineNumber();
-          
-          testBlocks.push({
-            name: testNameResult.name,
-            startLine,
-            endLine,
-            isDynamic: testNameResult.isDynamic,
-          });
+    return this.testTreeBuilder.getAllTests(this.testTreeBuilder.build(sourceFile));
+  }
+
+  /**
+   * Hook & Scope Propagation:
+   * A hook (`beforeEach`, `test.afterAll`, ...), a scope configuration call (`test.use`,
+   * `test.describe.configure`) or a describe header affects every test in that describe -
+   * or in the whole file, when declared at the top level.
+   * 
+   * @param root - The root suite of the file
+   * @param isBlockAffected - Decides whether a hook or configuration call is affected
+   * @param changedSpans - Changed spans to check describe headers against (none for dependency impact)
+   * @returns The tests in the scope of an affected hook, configuration call or describe header
+   */
+  private findScopeImpactedTests(
+    root: SuiteBlockInfo,
+    isBlockAffected: (block: ScopeBlockInfo) => boolean,
+    changedSpans: LineRange[] = []
+  ): Set<TestBlockInfo> {
+    const impactedTests = new Set<TestBlockInfo>();
+
+    for (const suite of this.testTreeBuilder.getAllSuites(root)) {
+      const header = { startLine: suite.startLine, endLine: suite.headerEndLine };
+      const isHeaderChanged = suite !== root && changedSpans.some(span => this.isSpanInside(span, header));
+
+      if (isHeaderChanged || suite.scopeBlocks.some(isBlockAffected)) {
+        this.testTreeBuilder.getAllTests(suite).forEach(test => impactedTests.add(test));
+      }
+    }
+
+    return impactedTests;
+  }
+
+  /**
+   * Checks if a test references any of the given declarations - in its own call, or in
+   * the loop iterable or `each` table it was generated from.
+   * 
+   * @param testBlock - The test
+   * @param declarations - The declarations to look for
+   * @returns True if the test or its parameters reference one of them
+   */
+  private testReferencesAny(testBlock: TestBlockInfo, declarations: Set<Node>): boolean {
+    return this.symbolImpact.referencesAny(testBlock.node, declarations) ||
+      testBlock.parameterSources.some(source => this.symbolImpact.referencesAny(source, declarations));
+  }
+
+  /**
+   * Local Dependency Analysis:
+   * A changed line outside every test, hook and describe header - a constant, a local
+   * helper function or an import at the top of the spec - affects the tests that use it.
+   * 
+   * 1. Map each such line to the statement it sits in, within the innermost describe
+   * 2. Declarations (variables, functions, classes, imports) become changed declarations
+   *    and are propagated through the spec's other top-level declarations
+   * 3. Any other statement (a setup call, a loop around tests) affects the tests inside it,
+   *    or every test of its describe when it contains none
+   * 4. Tests referencing a changed declaration, or in the scope of a hook referencing one,
+   *    are selected
+   * 
+   * @param sourceFile - The changed spec file
+   * @param root - The root suite of the file
+   * @param changedSpans - The changed spans (see getChangedSpans)
+   * @returns The tests affected by changed code outside the tests
+   */
+  private findLocalImpactedTests(
+    sourceFile: SourceFile,
+    root: SuiteBlockInfo,
+    changedSpans: LineRange[]
+  ): Set<TestBlockInfo> {
+    const impactedTests = new Set<TestBlockInfo>();
+    const suites = this.testTreeBuilder.getAllSuites(root);
+
+    const localSpans = changedSpans.filter(span => !suites.some(suite =>
+      suite.tests.some(test => this.isSpanInside(span, test)) ||
+      suite.scopeBlocks.some(block => this.isSpanInside(span, block)) ||
+      (suite !== root && this.isSpanInside(span, { startLine: suite.startLine, endLine: suite.headerEndLine }))
+    ));
+
+    const changedDeclarations = new Set<Node>();
+    for (const span of localSpans) {
+      // Suites are listed parents first, so the last one containing the span is the innermost
+      const suite = suites.filter(candidate => this.isSpanInside(span, candidate)).pop() ?? root;
+      const statement = this.testTreeBuilder.getSuiteStatements(suite).find(candidate =>
+        this.isSpanInside(span, { startLine: candidate.getStartLineNumber(), endLine: candidate.getEndLineNumber() })
+      );
+      if (!statement) {
+        // Blank line, comment, closing bracket, or a removed statement (removed tests are
+        // reported as REMOVED; tests using a removed declaration must have changed too)
+        continue;
+      }
+
+      const declarations = this.symbolImpact.getStatementDeclarations(statement);
+      if (declarations) {
+        declarations.forEach(declaration => changedDeclarations.add(declaration));
+        continue;
+      }
+
+      const suiteTests = this.testTreeBuilder.getAllTests(suite);
+      const statementTests = suiteTests.filter(test =>
+        test.startLine >= statement.getStartLineNumber() && test.endLine <= statement.getEndLineNumber()
+      );
+      (statementTests.length > 0 ? statementTests : suiteTests).forEach(test => impactedTests.add(test));
+    }
+
+    if (changedDeclarations.size > 0) {
+      this.symbolImpact.propagate(changedDeclarations, [sourceFile], false);
+
+      const scopeImpactedTests = this.findScopeImpactedTests(root, block =>
+        this.symbolImpact.referencesAny(block.node, changedDeclarations)
+      );
+      for (const testBlock of this.testTreeBuilder.getAllTests(root)) {
+        if (scopeImpactedTests.has(testBlock) || this.testReferencesAny(testBlock, changedDeclarations)) {
+          impactedTests.add(testBlock);
         }
       }
     }
-    
-    return testBlocks;
+
+    return impactedTests;
   }
 
   /**
@@ -155,14 +526,15 @@ export class Analyzer {
    */
   private extractTestBlocksFromContent(content: string, filePath: string): TestBlockInfo[] | null {
     try {
-      // Create a temporary source file from the content
+      // Create a temporary source file from the content, next to the original so that
+      // its relative imports (constants used in test titles) resolve
       const tempSourceFile = this.project.createSourceFile(
-        `__temp_${Date.now()}_${path.basename(filePath)}`,
+        path.resolve(this.repoPath, path.dirname(filePath), `__temp_${Date.now()}_${path.basename(filePath)}`),
         content,
         { overwrite: true }
       );
       
-      const testBlocks = this.extractTestBlocks(tempSourceFile);
+      const testBlocks = this.profiler.measure('parse', () => this.extractTestBlocks(tempSourceFile));
       
       // Clean up: Remove the temporary source file to free memory
       this.project.removeSourceFile(tempSourceFile);
@@ -190,40 +562,83 @@ export class Analyzer {
       .map(t => t.name);
   }
 
+  /**
+   * Returns the changed positions of a diff as line spans: each changed line on its own,
+   * and lines N to N + 1 around each pure deletion after line N.
+   * 
+   * A block is touched by the spans it contains, so a deletion only counts for the block
+   * it was made inside of - removing a whole test doesn't touch the tests around it.
+   * 
+   * @param fileDiff - The file diff
+   * @returns The changed spans (empty in --all mode and for changes without hunks)
+   */
+  private getChangedSpans(fileDiff: FileDiff): LineRange[] {
+    return [
+      ...fileDiff.changedLines.map(line => ({ startLine: line, endLine: line })),
+      ...(fileDiff.deletedAfterLines ?? []).map(line => ({ startLine: line, endLine: line + 1 })),
+    ];
+  }
+
+  /**
+   * Checks if a changed span lies within a block's line range.
+   * @param span - The changed span
+   * @param block - The block's line range
+   * @returns True if the block contains the whole span
+   */
+  private isSpanInside(span: LineRange, block: LineRange): boolean {
+    return span.startLine >= block.startLine && span.endLine <= block.endLine;
+  }
+
   /**
    * Intersection Algorithm:
-   * Checks if any changed lines fall within the test block's line range.
-   * Only tests with overlapping changes are selected.
+   * Checks if any changed span falls within the test block's line range.
+   * Only tests with overlapping changes (or deletions inside them) are selected.
    * 
-   * Special case: If changedLines is empty (--all mode), returns true to select ALL tests.
+   * Without changed spans nothing intersects: a change without hunks (a pure rename)
+   * touches no test. The --all mode selects every test through FileDiff.selectAllTests instead.
    * 
    * @param testStartLine - The start line of the test block
    * @param testEndLine - The end line of the test block
-   * @param changedLines - Array of changed line numbers (empty = select all)
-   * @returns True if there is an intersection or if changedLines is empty
+   * @param changedSpans - The changed spans
+   * @returns True if there is an intersection
    */
   private hasIntersection(
     testStartLine: number,
     testEndLine: number,
-    changedLines: number[]
+    changedSpans: LineRange[]
   ): boolean {
-    // In --all mode, changedLines is empty - select ALL tests
-    if (changedLines.length === 0) {
-      return true;
-    }
-    return changedLines.some(line => line >= testStartLine && line <= testEndLine);
+    return changedSpans.some(span => this.isSpanInside(span, { startLine: testStartLine, endLine: testEndLine }));
   }
 
   /**
-   * Checks if a file path is inside node_modules.
+   * Checks if a file is excluded from the analysis (node_modules unless configured otherwise).
    * We skip external library files to avoid unnecessary traversal.
    * 
-   * @param filePath - The file path to check
-   * @returns True if the file is inside node_modules
+   * @param filePath - The file path to check (absolute or relative to the repo root)
+   * @returns True if the file matches an exclude glob
    */
-  private isNodeModulesFile(filePath: string): boolean {
-    const normalizedPath = filePath.replace(/\\/g, '/');
-    return normalizedPath.includes('/node_modules/') || normalizedPath.includes('\\node_modules\\');
+  private isExcludedFile(filePath: string): boolean {
+    const relativePath = path.relative(this.repoPath, path.resolve(this.repoPath, filePath));
+    return matchesAny(relativePath, this.config.exclude ?? DEFAULT_EXCLUDE);
+  }
+
+  /**
+   * Checks if a changed code file is shared code whose impact is traced to the tests.
+   * Without configured helper roots, every code file is.
+   * 
+   * @param filePath - The file path, relative to the repo root
+   * @returns True if the file is inside a helper root
+   */
+  private isHelperFile(filePath: string): boolean {
+    const helperRoots = this.config.helperRoots;
+    if (!helperRoots) {
+      return true;
+    }
+
+    return helperRoots.some(root => {
+      const relativePath = path.relative(path.resolve(this.repoPath, root), path.resolve(this.repoPath, filePath));
+      return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+    });
   }
 
   /**
@@ -234,40 +649,52 @@ export class Analyzer {
    * @returns Array of file paths that import this file
    */
   private findDirectImporters(targetFilePath: string): string[] {
-    const importers: string[] = [];
-    const targetFileName = path.basename(targetFilePath, '.ts');
-    const targetFileNameWithoutExt = targetFileName.replace(/\.tsx?$/, '');
-    
-    const sourceFiles = this.project.getSourceFiles();
-    
-    for (const sourceFile of sourceFiles) {
-      const filePath = sourceFile.getFilePath();
-      
-      // Skip node_modules files
-      if (this.isNodeModulesFile(filePath)) {
-        continue;
-      }
-      
-      // Skip the target file itself
-      if (path.resolve(filePath) === path.resolve(targetFilePath)) {
-        continue;
-      }
-      
-      // Check imports for the target file
-      const importDeclarations = sourceFile.getImportDeclarations();
-      for (const importDecl of importDeclarations) {
-        const moduleSpecifier = importDecl.getModuleSpecifierValue();
-        
-        // Check if this import references our target file
-        // Handle both relative imports (./helper) and the actual filename
-        if (moduleSpecifier.includes(targetFileNameWithoutExt)) {
-          importers.push(filePath);
-          break;
+    return this.getImporterIndex().get(path.resolve(targetFilePath)) ?? [];
+  }
+
+  /**
+   * Builds the reverse import graph of the snapshot once per run: the direct importers
+   * of every code file. Importer queries are then lookups instead of a scan of every
+   * file's imports per BFS node.
+   * 
+   * Every module specifier (imports, `export ... from`, `require()`, dynamic `import()`)
+   * is resolved with the TypeScript module resolver, so tsconfig `paths` aliases, `baseUrl`
+   * and directory `index.ts` imports are matched, while look-alike names (`string-utils`
+   * vs `utils`) are not.
+   * 
+   * @returns The importers (absolute paths) by imported file
+   */
+  private getImporterIndex(): Map<string, string[]> {
+    if (this.importerIndex) {
+      return this.importerIndex;
+    }
+
+    const importerIndex = new Map<string, string[]>();
+    this.profiler.measure('graph', () => {
+      // Every code file of the snapshot, parsed or not: imports come from the cache
+      for (const filePath of this.blobShas.keys()) {
+        // Skip node_modules and other excluded files
+        if (this.isExcludedFile(filePath)) {
+          continue;
+        }
+
+        for (const dependency of this.moduleResolver.getDependencies(filePath)) {
+          // A file importing itself is not its own importer
+          if (dependency === filePath) {
+            continue;
+          }
+          const importers = importerIndex.get(dependency);
+          if (importers) {
+            importers.push(filePath);
+          } else {
+            importerIndex.set(dependency, [filePath]);
+          }
         }
       }
-    }
-    
-    return importers;
+    });
+
+    this.importerIndex = importerIndex;
+    return importerIndex;
   }
 
   /**
@@ -285,19 +712,32 @@ export class Analyzer {
    * Cycle Prevention: Use a visited Set to track processed files.
    * Performance: Skip files inside node_modules.
    * 
+   * The non-test files crossed on the way are returned too, so symbol-level impact
+   * can be propagated through them.
+   * 
    * @param sourceFilePath - The path to the changed source file
-   * @returns Array of unique test file paths that depend on this file (directly or transitively)
+   * @returns Unique test files that depend on this file (directly or transitively) and the helpers in between
    */
-  private findDependentTestFiles(sourceFilePath: string): string[] {
+  private findDependentTestFiles(sourceFilePath: string): DependentFiles {
+    return this.profiler.measure('graph', () => this.walkImporters(sourceFilePath));
+  }
+
+  /**
+   * Runs the importer BFS of findDependentTestFiles.
+   * 
+   * @param sourceFilePath - The path to the changed source file
+   * @returns The dependent test files and the helpers in between
+   */
+  private walkImporters(sourceFilePath: string): DependentFiles {
     const impactedTestFiles = new Set<string>();
+    const intermediateFiles = new Set<string>();
+    // The file each importer was first reached from, to trace its import path back
+    const reachedFrom = new Map<string, string>();
     const visited = new Set<string>();
     const queue: string[] = [path.resolve(sourceFilePath)];
     
     try {
-      // Add all TypeScript files in the project for reference searching
-      // Only do this once at the start
-      this.project.addSourceFilesAtPaths(path.join(this.repoPath, '**/*.ts'));
-      
+      // Importers come from the reverse import graph, built once per run
       // BFS traversal
       while (queue.length > 0) {
         const currentFile = queue.shift()!;
@@ -310,7 +750,7 @@ export class Analyzer {
         visited.add(normalizedCurrentFile);
         
         // Skip node_modules files
-        if (this.isNodeModulesFile(normalizedCurrentFile)) {
+        if (this.isExcludedFile(normalizedCurrentFile)) {
           continue;
         }
         
@@ -326,15 +766,20 @@ export class Analyzer {
           }
           
           // Skip node_modules
-          if (this.isNodeModulesFile(normalizedImporter)) {
+          if (this.isExcludedFile(normalizedImporter)) {
             continue;
           }
           
+          if (!reachedFrom.has(normalizedImporter)) {
+            reachedFrom.set(normalizedImporter, normalizedCurrentFile);
+          }
+          
           if (this.isTestFile(importerPath)) {
             // Found a test file - add to impact list
             impactedTestFiles.add(normalizedImporter);
           } else {
             // Source file - add to queue to find its parents (transitive search)
+            intermediateFiles.add(normalizedImporter);
             queue.push(normalizedImporter);
           }
         }
@@ -343,7 +788,322 @@ export class Analyzer {
       // If we can't find dependencies, return empty array (silently)
     }
     
-    return Array.from(impactedTestFiles);
+    const importPaths = new Map<string, string[]>();
+    for (const testFile of impactedTestFiles) {
+      const importPath = [testFile];
+      for (let file = reachedFrom.get(testFile); file; file = reachedFrom.get(file)) {
+        importPath.unshift(file);
+      }
+      importPaths.set(testFile, importPath);
+    }
+    
+    return {
+      testFiles: Array.from(impactedTestFiles),
+      intermediateFiles: Array.from(intermediateFiles),
+      importPaths,
+    };
+  }
+
+  /**
+   * Builds the impact chain of a dependent test file: its import path from the changed
+   * file, starting at the first changed line. A deleted file has no line left to point at.
+   * 
+   * @param dependentFiles - The result of findDependentTestFiles for the changed file
+   * @param testFilePath - The absolute path of the dependent test file
+   * @param fileDiff - The diff of the changed file
+   * @returns The chain from the changed file to the test file
+   */
+  private getImportChain(dependentFiles: DependentFiles, testFilePath: string, fileDiff: FileDiff): ImpactReason[] {
+    const [changedFile = testFilePath, ...importers] = dependentFiles.importPaths.get(testFilePath) ?? [];
+
+    return [
+      this.getChangeReason(
+        path.relative(this.repoPath, changedFile),
+        fileDiff.status === 'DELETED' ? [] : this.getChangedSpans(fileDiff)
+      ),
+      ...importers.map(filePath => ({ file: path.relative(this.repoPath, filePath) })),
+    ];
+  }
+
+  /**
+   * Builds the first link of an impact chain: the changed file, at the first changed line
+   * inside the selected block, or the first of the file if none is (a hook, a local
+   * declaration or a helper selected the block).
+   * Lines deleted before the first line start at line 0, which is reported as line 1.
+   * 
+   * @param filePath - The changed file, relative to the repo root
+   * @param changedSpans - The changed spans (see getChangedSpans)
+   * @param block - The selected block
+   * @returns The link, without a line if no line changed (pure renames, deletions, --all mode)
+   */
+  private getChangeReason(filePath: string, changedSpans: LineRange[], block?: LineRange): ImpactReason {
+    const blockSpans = block ? changedSpans.filter(span => this.isSpanInside(span, block)) : [];
+    const lines = (blockSpans.length > 0 ? blockSpans : changedSpans).map(span => Math.max(span.startLine, 1));
+    return lines.length > 0 ? { file: filePath, line: Math.min(...lines) } : { file: filePath };
+  }
+
+  /**
+   * Symbol-Level Impact:
+   * Works out which declarations and fixtures a source file change affects, across every
+   * file between the change and the tests.
+   * 
+   * 1. Map the changed lines to the top-level declarations they sit in. A renamed or
+   *    deleted file changes every one of its declarations, as every import of it changed
+   * 2. Propagate through the changed file and the intermediate helpers: any declaration
+   *    that references a changed declaration is changed too (re-exports and barrels are
+   *    followed by the type checker)
+   * 3. Fixtures: a changed line inside a `test.extend({...})` fixture, or a fixture that
+   *    references a changed declaration, changes that fixture and every fixture depending on it
+   * 
+   * Falls back to whole-file impact (null) when the change can't be attributed to
+   * declarations, or when a helper loads the chain through `require()` / `import()`,
+   * whose results the type checker can't trace back to declarations.
+   * 
+   * @param sourceFilePath - The absolute path to the changed source file
+   * @param fileDiff - The diff of the changed source file
+   * @param intermediateFiles - The helpers between the changed file and the tests
+   * @returns The affected declarations and fixtures, or null if the whole file must be treated as changed
+   */
+  private findDependencyImpact(
+    sourceFilePath: string,
+    fileDiff: FileDiff,
+    intermediateFiles: string[]
+  ): DependencyImpact | null {
+    const sourceFile = this.getSourceFile(sourceFilePath);
+    if (!sourceFile || fileDiff.status === 'ADDED') {
+      return null;
+    }
+
+    const fixtureDefinitions = this.getFixtureDefinitions();
+    const changedSpans = this.getChangedSpans(fileDiff);
+    const isPureRename = fileDiff.status === 'RENAMED' && changedSpans.length === 0;
+    const changedDeclarations = isPureRename || fileDiff.status === 'DELETED'
+      ? new Set<Node>()
+      : this.symbolImpact.findChangedDeclarations(sourceFile, changedSpans);
+    if (!changedDeclarations) {
+      return null;
+    }
+
+    // A rename (or a deletion, analyzed in the parent tree) changes the import in every file
+    // importing it: each declaration is now reached through a new module path, or gone
+    if (fileDiff.status === 'RENAMED' || fileDiff.status === 'DELETED') {
+      this.symbolImpact.getAllDeclarations(sourceFile).forEach(declaration => changedDeclarations.add(declaration));
+    }
+
+    const changedFixtures = new Set(fixtureDefinitions
+      .filter(definition =>
+        definition.node.getSourceFile() === sourceFile &&
+        changedSpans.some(span => this.isSpanInside(span, definition))
+      )
+      .map(definition => definition.name));
+
+    const propagationFiles = [sourceFile, ...intermediateFiles
+      .map(filePath => this.getSourceFile(filePath))
+      .filter((file): file is SourceFile => file !== undefined)];
+    const chainFiles = new Set(propagationFiles.map(file => path.resolve(file.getFilePath())));
+
+    const hasDynamicLoad = propagationFiles.some(file =>
+      this.moduleResolver.getDynamicDependencies(file.getFilePath()).some(dependency => chainFiles.has(dependency))
+    );
+    if (hasDynamicLoad) {
+      return null;
+    }
+
+    this.symbolImpact.propagate(changedDeclarations, propagationFiles);
+
+    for (const definition of fixtureDefinitions) {
+      if (this.symbolImpact.referencesAny(definition.node, changedDeclarations)) {
+        changedFixtures.add(definition.name);
+      }
+    }
+    this.fixtureAnalyzer.propagate(changedFixtures, fixtureDefinitions);
+
+    return { declarations: changedDeclarations, fixtures: changedFixtures, files: chainFiles };
+  }
+
+  /**
+   * Collects the fixture definitions (`test.extend({...})`) of every project file once.
+   * Their nodes are excluded from declaration-level tracking, so a fixture change
+   * selects only the tests using that fixture instead of every test using `test`.
+   * 
+   * @returns All fixture definitions
+   */
+  private getFixtureDefinitions(): FixtureDefinition[] {
+    if (this.fixtureDefinitions) {
+      return this.fixtureDefinitions;
+    }
+
+    // Only files defining fixtures (known from the cache) are parsed
+    this.fixtureDefinitions = Array.from(this.blobShas.keys())
+      .filter(filePath => !this.isExcludedFile(filePath) && this.getFileInfo(filePath).fixtures.length > 0)
+      .flatMap(filePath => {
+        const sourceFile = this.getSourceFile(filePath);
+        return sourceFile ? this.fixtureAnalyzer.findFixtureDefinitions(sourceFile) : [];
+      });
+    this.symbolImpact.excludeNodes(this.fixtureDefinitions.map(definition => definition.node));
+
+    return this.fixtureDefinitions;
+  }
+
+  /**
+   * Collects the data file references that may point at a data file.
+   * Only code files mentioning the data file's name or directory name are parsed:
+   * a path to it must spell one of them out.
+   * 
+   * @param dataFilePath - The absolute path of the data file
+   * @returns The references of those files
+   */
+  private getDataFileReferences(dataFilePath: string): DataFileReference[] {
+    const names = [path.basename(dataFilePath), path.basename(path.dirname(dataFilePath))];
+    const fileSystem = this.project.getFileSystem();
+
+    return Array.from(this.blobShas.keys())
+      .filter(filePath => !this.isExcludedFile(filePath))
+      .flatMap(filePath => {
+        let references = this.dataFileReferences.get(filePath);
+        if (!references) {
+          const content = fileSystem.readFileSync(filePath);
+          if (!names.some(name => content.includes(name))) {
+            return [];
+          }
+          const sourceFile = this.getSourceFile(filePath);
+          references = sourceFile ? this.dataFileAnalyzer.findReferences(sourceFile) : [];
+          this.dataFileReferences.set(filePath, references);
+        }
+        return references;
+      });
+  }
+
+  /**
+   * Data File Analysis:
+   * Finds the tests that load a changed data file (JSON fixture, CSV, storage state, ...).
+   * 
+   * Each reference to the file counts as a change of the code holding it:
+   * - In a spec, the tests containing the reference are selected, or the tests in the
+   *   scope of a hook or `test.use(...)` holding it, or the tests using a spec-level
+   *   declaration holding it (`import users from './users.json'`)
+   * - In a helper, the declaration holding it is changed, and its impact is traced to
+   *   the tests like any helper change
+   * 
+   * @param fileDiff - The diff of the changed data file
+   * @returns One result per spec file with selected tests
+   */
+  private analyzeDataFile(fileDiff: FileDiff): FileAnalysisResult[] {
+    const dataFilePaths = [fileDiff.path, ...(fileDiff.oldPath ? [fileDiff.oldPath] : [])]
+      .map(filePath => path.resolve(this.repoPath, filePath));
+    const references = dataFilePaths.flatMap(dataFilePath =>
+      this.getDataFileReferences(dataFilePath).filter(reference =>
+        this.dataFileAnalyzer.referencesFile(reference, dataFilePath)
+      )
+    );
+
+    const spansByFile = new Map<SourceFile, LineRange[]>();
+    for (const reference of references) {
+      const sourceFile = reference.node.getSourceFile();
+      spansByFile.set(sourceFile, [...(spansByFile.get(sourceFile) ?? []), reference]);
+    }
+
+    const fileResults: FileAnalysisResult[] = [];
+    for (const [sourceFile, spans] of spansByFile) {
+      const filePath = sourceFile.getFilePath();
+      const referenceDiff: FileDiff = {
+        path: path.relative(this.repoPath, filePath),
+        status: 'MODIFIED',
+        changedLines: spans.flatMap(span =>
+          Array.from({ length: span.endLine - span.startLine + 1 }, (_, index) => span.startLine + index)
+        ),
+      };
+
+      if (this.isTestFile(filePath)) {
+        fileResults.push(this.analyzeDataReferencingTestFile(sourceFile, spans));
+        continue;
+      }
+
+      const dependentFiles = this.findDependentTestFiles(filePath);
+      const dependencyImpact = this.findDependencyImpact(filePath, referenceDiff, dependentFiles.intermediateFiles);
+      for (const testFilePath of dependentFiles.testFiles) {
+        const reasons = this.getImportChain(dependentFiles, testFilePath, referenceDiff);
+        fileResults.push(this.analyzeDependentTestFile(testFilePath, referenceDiff, dependencyImpact, reasons));
+      }
+    }
+
+    for (const result of fileResults) {
+      result.tests = result.tests.map(test => ({
+        ...test,
+        impactType: 'DATA_DEPENDENCY',
+        dataFile: fileDiff.path,
+        reasons: [{ file: fileDiff.path }, ...test.reasons],
+      }));
+    }
+    return fileResults.filter(result => result.tests.length > 0);
+  }
+
+  /**
+   * Selects the tests of a spec affected by the data file references in it,
+   * as if the referencing lines had changed.
+   * 
+   * @param sourceFile - The spec file
+   * @param spans - The line spans of the references
+   * @returns The spec's result (tests reported as DATA_DEPENDENCY by the caller)
+   */
+  private analyzeDataReferencingTestFile(sourceFile: SourceFile, spans: LineRange[]): FileAnalysisResult {
+    const root = this.testTreeBuilder.build(sourceFile);
+    const scopeTests = this.findScopeImpactedTests(
+      root,
+      block => this.hasIntersection(block.startLine, block.endLine, spans),
+      spans
+    );
+    const localTests = this.findLocalImpactedTests(sourceFile, root, spans);
+
+    const relativePath = path.relative(this.repoPath, sourceFile.getFilePath());
+    const tests: ImpactedTest[] = this.testTreeBuilder.getAllTests(root)
+      .filter(testBlock =>
+        scopeTests.has(testBlock) ||
+        localTests.has(testBlock) ||
+        this.hasIntersection(testBlock.startLine, testBlock.endLine, spans)
+      )
+      .map(testBlock => ({
+        testName: testBlock.name,
+        titlePath: testBlock.titlePath,
+        fileName: relativePath,
+        impactType: 'DATA_DEPENDENCY',
+        isDynamic: testBlock.isDynamic,
+        reasons: [this.getChangeReason(relativePath, spans, testBlock)],
+      }));
+
+    return {
+      filePath: relativePath,
+      status: 'MODIFIED',
+      tests,
+      hasDynamicTests: tests.some(test => test.isDynamic),
+    };
+  }
+
+  /**
+   * Adds a file result to the list, merging it into an existing result for the same file.
+   * A spec can be reached several times (changed directly and through one or more helpers).
+   * A direct change or removal outranks a dependency for the same test.
+   * 
+   * @param fileResults - The results collected so far
+   * @param result - The new result to add
+   */
+  private mergeFileResult(fileResults: FileAnalysisResult[], result: FileAnalysisResult): void {
+    const existing = fileResults.find(fileResult => fileResult.filePath === result.filePath);
+    if (!existing) {
+      fileResults.push(result);
+      return;
+    }
+
+    for (const test of result.tests) {
+      const index = existing.tests.findIndex(t => t.testName === test.testName);
+      if (index === -1) {
+        existing.tests.push(test);
+      } else if (existing.tests[index]?.impactType === 'DEPENDENCY' && test.impactType !== 'DEPENDENCY') {
+        existing.tests[index] = test;
+      }
+    }
+
+    existing.hasDynamicTests = Boolean(existing.hasDynamicTests || result.hasDynamicTests);
   }
 
   /**
@@ -353,47 +1113,60 @@ export class Analyzer {
    * For source files: Uses Dependency Logic to find impacted tests.
    * For MODIFIED/DELETED test files: Detects REMOVED tests by comparing versions.
    * 
+   * Parallel Analysis:
+   * Each changed file is analyzed on its own, so with more than one worker the files are
+   * shared out to worker threads (see analyzeInWorkers). The per-file results are merged
+   * in the order of the changed files either way, so the report doesn't depend on it.
+   * 
    * @param changedFiles - Array of file diffs from GitService
    * @param commitSha - The commit SHA being analyzed
-   * @param prevCommitSha - The parent commit SHA for comparison (null for --all mode)
+   * @param prevCommitSha - The commit to compare against for REMOVED detection:
+   *   the parent commit, or the range base / merge-base (null for --all mode)
    * @param gitService - GitService instance for fetching file content (null for --all mode)
+   * @param workerCount - The number of worker threads to analyze the changed files in (1 for none)
    * @returns Complete analysis report
    */
   async analyze(
     changedFiles: FileDiff[],
     commitSha: string,
     prevCommitSha: string | null = null,
-    gitService: GitService | null = null
+    gitService: GitService | null = null,
+    workerCount: number = 1
   ): Promise<AnalysisReport> {
     const fileResults: FileAnalysisResult[] = [];
-    const processedTestFiles = new Set<string>();
+    const testHistory: TestHistory = { removed: [], added: [] };
 
-    for (const fileDiff of changedFiles) {
-      const absolutePath = path.resolve(this.repoPath, fileDiff.path);
-      
-      if (this.isTestFile(fileDiff.path)) {
-        // Handle test file changes with Intersection Logic + REMOVED detection
-        const result = await this.analyzeTestFile(absolutePath, fileDiff, prevCommitSha, gitService);
-        if (result.tests.length > 0 || fileDiff.status === 'DELETED') {
-          fileResults.push(result);
-          processedTestFiles.add(absolutePath);
-        }
-      } else if (fileDiff.path.endsWith('.ts') && fileDiff.status !== 'DELETED') {
-        // Handle source file changes with Dependency Logic
-        const dependentTestFiles = this.findDependentTestFiles(absolutePath);
-        
-        for (const testFilePath of dependentTestFiles) {
-          if (processedTestFiles.has(testFilePath)) {
-            continue;
-          }
-          
-          const result = this.analyzeDependentTestFile(testFilePath, fileDiff);
-          if (result.tests.length > 0) {
-            fileResults.push(result);
-            processedTestFiles.add(testFilePath);
-          }
-        }
-      }
+    await this.loadSourceTree();
+
+    // Changed files no test imports (runner config, lockfiles, ...) fire trigger rules
+    const triggeredRules = this.triggerRules.evaluate(changedFiles.map(fileDiff => fileDiff.path));
+    const ignoredPaths = new Set(
+      triggeredRules.filter(rule => rule.action === 'ignore').flatMap(rule => rule.files)
+    );
+    const analyzedFiles = changedFiles.filter(fileDiff =>
+      !this.isExcludedFile(fileDiff.path) && !ignoredPaths.has(fileDiff.path)
+    );
+
+    const workerAnalyses = workerCount > 1 && analyzedFiles.length > 1
+      ? await this.analyzeInWorkers(analyzedFiles, prevCommitSha, Math.min(workerCount, analyzedFiles.length))
+      : null;
+    const analyses = workerAnalyses ?? await this.analyzeChangedFiles(analyzedFiles, prevCommitSha, gitService);
+
+    for (const analysis of analyses) {
+      analysis.fileResults.forEach(result => this.mergeFileResult(fileResults, result));
+      testHistory.removed.push(...analysis.testHistory.removed);
+      testHistory.added.push(...analysis.testHistory.added);
+    }
+
+    // Removed tests whose bodies reappear elsewhere were renamed or moved, not lost
+    this.applyTestMatches(fileResults, this.testMatcher.match(testHistory.removed, testHistory.added));
+
+    this.applyTriggeredRules(fileResults, triggeredRules);
+
+    // Always-run test files are selected on every run
+    const alwaysRun = this.config.alwaysRun ?? [];
+    if (alwaysRun.length > 0) {
+      this.selectAllTests(fileResults, 'ALWAYS_RUN', { isFileSelected: filePath => matchesAny(filePath, alwaysRun) });
     }
 
     const totalTestsSelected = fileResults.reduce(
@@ -403,12 +1176,375 @@ export class Analyzer {
 
     return {
       commitSha,
+      ...(prevCommitSha ? { baseSha: prevCommitSha } : {}),
       repoPath: this.repoPath,
       fileResults,
       totalTestsSelected,
+      triggeredRules,
+      framework: this.framework.name,
+      changedFiles: changedFiles.map(fileDiff => fileDiff.path),
+    };
+  }
+
+  /**
+   * Analyzes each changed file on its own, without merging the results.
+   * Worker threads call this with their share of the changed files.
+   * 
+   * @param changedFiles - The changed files (excluded and ignored files already left out)
+   * @param prevCommitSha - The commit to compare against for REMOVED detection
+   * @param gitService - GitService instance for fetching file content (null for --all mode)
+   * @returns One analysis per changed file, in order
+   */
+  async analyzeChangedFiles(
+    changedFiles: FileDiff[],
+    prevCommitSha: string | null,
+    gitService: GitService | null
+  ): Promise<ChangedFileAnalysis[]> {
+    await this.loadSourceTree();
+
+    const analyses: ChangedFileAnalysis[] = [];
+    for (const fileDiff of changedFiles) {
+      const testHistory: TestHistory = { removed: [], added: [] };
+      const fileResults = await this.analyzeChangedFile(fileDiff, prevCommitSha, gitService, testHistory);
+      analyses.push({ fileResults, testHistory });
+    }
+    return analyses;
+  }
+
+  /**
+   * Analyzes one changed file.
+   * 
+   * @param fileDiff - The changed file
+   * @param prevCommitSha - The commit to compare against for REMOVED detection
+   * @param gitService - GitService instance for fetching file content (null for --all mode)
+   * @param testHistory - Collects the tests the change removed and added
+   * @returns The results of the specs the file selects tests in
+   */
+  private async analyzeChangedFile(
+    fileDiff: FileDiff,
+    prevCommitSha: string | null,
+    gitService: GitService | null,
+    testHistory: TestHistory
+  ): Promise<FileAnalysisResult[]> {
+    const absolutePath = path.resolve(this.repoPath, fileDiff.path);
+
+    if (this.isTestFile(fileDiff.path)) {
+      // Handle test file changes with Intersection Logic + REMOVED detection
+      const result = await this.analyzeTestFile(absolutePath, fileDiff, prevCommitSha, gitService, testHistory);
+      return result.tests.length > 0 || fileDiff.status === 'DELETED' ? [result] : [];
+    }
+
+    if (!this.isCodeFile(fileDiff.path)) {
+      // Data files (JSON fixtures, CSV, storage state, ...) select the tests loading them
+      return this.analyzeDataFile(fileDiff);
+    }
+
+    if (!this.isHelperFile(fileDiff.path)) {
+      // Code outside the helper roots (e.g. app sources) is not traced to tests
+      return [];
+    }
+
+    if (fileDiff.status === 'DELETED') {
+      // Deleted helpers have no importers left in this tree - find them in the parent tree
+      if (!prevCommitSha || !gitService) {
+        return [];
+      }
+      const baseAnalyzer = this.getBaseAnalyzer(gitService, prevCommitSha);
+      return (await baseAnalyzer.analyzeDeletedFile(fileDiff))
+        .map(baseResult => this.selectTestsByName(baseResult))
+        .filter(result => result.tests.length > 0);
+    }
+
+    // Handle source file changes with Dependency Logic, narrowed to the changed symbols
+    const dependentFiles = this.findDependentTestFiles(absolutePath);
+    // Parse the chain before the type checker is used on it (see getSpecTests)
+    [...dependentFiles.intermediateFiles, ...dependentFiles.testFiles].forEach(filePath => this.getSourceFile(filePath));
+    const dependencyImpact = this.findDependencyImpact(
+      absolutePath,
+      fileDiff,
+      dependentFiles.intermediateFiles
+    );
+
+    return dependentFiles.testFiles
+      .map(testFilePath => this.analyzeDependentTestFile(
+        testFilePath,
+        fileDiff,
+        dependencyImpact,
+        this.getImportChain(dependentFiles, testFilePath, fileDiff)
+      ))
+      .filter(result => result.tests.length > 0);
+  }
+
+  /**
+   * Import Graph Export:
+   * Builds the import graph findDependentTestFiles walks, for `smart-test graph`.
+   * Every code file of the snapshot outside the excludes is a node, counting the test
+   * files depending on it; every resolved import between two of them is an edge.
+   * 
+   * @param changedFiles - The changed files to mark, relative to the repo root
+   * @returns The import graph, sorted by file
+   */
+  async getImportGraph(changedFiles: string[] = []): Promise<ImportGraph> {
+    await this.loadSourceTree();
+
+    const filePaths = Array.from(this.blobShas.keys()).filter(filePath => !this.isExcludedFile(filePath))
+      .sort((a, b) => a.localeCompare(b));
+    const graphFiles = new Set(filePaths);
+    const changedPaths = new Set(changedFiles.map(filePath => path.resolve(this.repoPath, filePath)));
+    const toRelative = (filePath: string) => path.relative(this.repoPath, filePath);
+
+    const nodes: ImportGraphNode[] = filePaths.map(filePath => ({
+      file: toRelative(filePath),
+      kind: this.isTestFile(filePath) ? 'test' : this.getFileInfo(filePath).fixtures.length > 0 ? 'fixture' : 'helper',
+      dependentTests: this.findDependentTestFiles(filePath).testFiles.length,
+      changed: changedPaths.has(filePath),
+    }));
+
+    const edges = filePaths.flatMap(importedPath => this.findDirectImporters(importedPath)
+      .filter(importerPath => graphFiles.has(importerPath))
+      .map(importerPath => ({ from: toRelative(importerPath), to: toRelative(importedPath) }))
+    );
+    edges.sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+
+    return { nodes, edges };
+  }
+
+  /**
+   * Analyzes changed files in worker threads, each with its own analyzer over this snapshot.
+   * The workers' cache entries and phase timings are taken over by this thread.
+   * 
+   * @param changedFiles - The changed files (excluded and ignored files already left out)
+   * @param prevCommitSha - The commit to compare against for REMOVED detection
+   * @param workerCount - The number of worker threads
+   * @returns One analysis per changed file, in order, or null if the workers failed
+   */
+  private async analyzeInWorkers(
+    changedFiles: FileDiff[],
+    prevCommitSha: string | null,
+    workerCount: number
+  ): Promise<ChangedFileAnalysis[] | null> {
+    try {
+      const { analyses, workerResults } = await this.profiler.excludeAsync(() => analyzeInWorkers(
+        {
+          repoPath: this.repoPath,
+          sourceTree: this.sourceTree.describe(),
+          framework: this.framework.name,
+          frameworkOptions: this.framework.options,
+          config: this.config,
+          cacheDir: this.cache?.getDirectory() ?? null,
+          prevCommitSha,
+        },
+        changedFiles,
+        workerCount
+      ));
+
+      for (const result of workerResults) {
+        this.profiler.add(result.timings);
+        if (result.cacheUpdates) {
+          this.cache?.applyUpdates(result.cacheUpdates);
+        }
+      }
+      return analyses;
+    } catch (error) {
+      // Workers unavailable (no worker entry file, a config that can't be cloned, ...) - analyze here
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`⚠ Analysis workers failed: ${message}`);
+      this.logger.warn('⚠ Analyzing the changed files in the main thread instead.');
+      return null;
+    }
+  }
+
+  /**
+   * Returns an analyzer over the parent (or base) commit's tree, created on first use.
+   * 
+   * @param gitService - The git service to read the tree through
+   * @param baseSha - The parent or base commit SHA
+   * @returns The base tree analyzer
+   */
+  private getBaseAnalyzer(gitService: GitService, baseSha: string): Analyzer {
+    if (!this.baseAnalyzer) {
+      this.baseAnalyzer = new Analyzer(
+        this.repoPath,
+        new GitTreeSource(gitService, baseSha),
+        this.framework,
+        this.config,
+        this.cache,
+        this.profiler,
+        this.logger
+      );
+    }
+    return this.baseAnalyzer;
+  }
+
+  /**
+   * Deleted Dependency Analysis (run on the base tree analyzer):
+   * Finds the tests that depended on a file that the analyzed change deletes.
+   * Every declaration of the deleted file counts as changed, so only tests referencing
+   * it (directly or through helpers) are selected.
+   * 
+   * @param fileDiff - The diff of the deleted file
+   * @returns One result per dependent spec file in this tree
+   */
+  async analyzeDeletedFile(fileDiff: FileDiff): Promise<FileAnalysisResult[]> {
+    await this.loadSourceTree();
+
+    const absolutePath = path.resolve(this.repoPath, fileDiff.path);
+    const dependentFiles = this.findDependentTestFiles(absolutePath);
+    [...dependentFiles.intermediateFiles, ...dependentFiles.testFiles].forEach(filePath => this.getSourceFile(filePath));
+    const dependencyImpact = this.findDependencyImpact(absolutePath, fileDiff, dependentFiles.intermediateFiles);
+
+    return dependentFiles.testFiles.map(testFilePath => this.analyzeDependentTestFile(
+      testFilePath,
+      fileDiff,
+      dependencyImpact,
+      this.getImportChain(dependentFiles, testFilePath, fileDiff)
+    ));
+  }
+
+  /**
+   * Maps tests selected in the base tree onto this tree by their full titles.
+   * The selected tests are reported as DEPENDENCY_DELETED: a file they depended on was deleted.
+   * They keep the impact chain found in the base tree, from the deleted file to the spec.
+   * Tests that no longer exist under the same title are left out (they are DIRECT or REMOVED).
+   * 
+   * @param baseResult - A dependent spec's result from the base tree analyzer
+   * @returns The spec's result in this tree
+   */
+  private selectTestsByName(baseResult: FileAnalysisResult): FileAnalysisResult {
+    const tests: ImpactedTest[] = [];
+    const baseTests = new Map(baseResult.tests.map(test => [test.testName, test]));
+    const sourceFile = this.getSourceFile(path.resolve(this.repoPath, baseResult.filePath));
+
+    if (sourceFile) {
+      for (const testBlock of this.extractTestBlocks(sourceFile)) {
+        const baseTest = baseTests.get(testBlock.name);
+        if (baseTest) {
+          tests.push({
+            testName: testBlock.name,
+            titlePath: testBlock.titlePath,
+            fileName: baseResult.filePath,
+            impactType: 'DEPENDENCY_DELETED',
+            isDynamic: testBlock.isDynamic,
+            reasons: baseTest.reasons,
+          });
+        }
+      }
+    }
+
+    return {
+      filePath: baseResult.filePath,
+      status: 'MODIFIED',
+      tests,
+      hasDynamicTests: tests.some(test => test.isDynamic),
     };
   }
 
+  /**
+   * Selects the tests of fired run-all and tag rules.
+   * Project rules select no tests here: the runner runs the whole project.
+   * 
+   * @param fileResults - The results collected so far (updated in place)
+   * @param triggeredRules - The fired rules
+   */
+  private applyTriggeredRules(fileResults: FileAnalysisResult[], triggeredRules: TriggeredRule[]): void {
+    for (const rule of triggeredRules) {
+      if (rule.action === 'run-all') {
+        this.selectAllTests(fileResults, 'RUN_ALL', { rule: rule.name, changedFile: rule.files[0] });
+      } else if (rule.action === 'tag' && rule.tag) {
+        const tag = rule.tag;
+        this.selectAllTests(fileResults, 'TAGGED', {
+          rule: rule.name,
+          changedFile: rule.files[0],
+          isTestSelected: test => test.tags.includes(tag),
+        });
+      }
+    }
+  }
+
+  /**
+   * Selects every test of the test files, or those matching the filters.
+   * Tests already selected for a more specific reason keep that reason.
+   * 
+   * @param fileResults - The results collected so far (updated in place)
+   * @param impactType - The impact type to report the tests with
+   * @param selection - Filters on the repo-relative file path and on the test, and the rule selecting
+   *   the tests with the changed file that fired it (the start of their impact chains)
+   */
+  private selectAllTests(
+    fileResults: FileAnalysisResult[],
+    impactType: ImpactType,
+    selection: {
+      isFileSelected?: (filePath: string) => boolean;
+      isTestSelected?: (testBlock: CachedTestBlock) => boolean;
+      rule?: string;
+      changedFile?: string;
+    } = {}
+  ): void {
+    const { isFileSelected = () => true, isTestSelected = () => true, rule, changedFile } = selection;
+
+    const testFiles = Array.from(this.blobShas.keys()).filter(absolutePath => {
+      const filePath = path.relative(this.repoPath, absolutePath);
+      return this.isTestFile(filePath) && !this.isExcludedFile(filePath) && isFileSelected(filePath);
+    });
+
+    for (const [absolutePath, testBlocks] of this.getSpecTests(testFiles)) {
+      const filePath = path.relative(this.repoPath, absolutePath);
+      const tests: ImpactedTest[] = testBlocks.filter(isTestSelected).map(testBlock => ({
+        testName: testBlock.name,
+        titlePath: testBlock.titlePath,
+        fileName: filePath,
+        impactType,
+        isDynamic: testBlock.isDynamic,
+        ...(rule ? { rule } : {}),
+        reasons: [...(changedFile ? [{ file: changedFile }] : []), { file: filePath }],
+      }));
+
+      if (tests.length > 0) {
+        this.mergeFileResult(fileResults, {
+          filePath,
+          status: 'MODIFIED',
+          tests,
+          hasDynamicTests: tests.some(test => test.isDynamic),
+        });
+      }
+    }
+  }
+
+  /**
+   * Rename & Move Detection:
+   * Turns each matched pair of a REMOVED test and a new test into a single entry.
+   * The new test is reported as RENAMED (same spec file) or MOVED (another spec file),
+   * recording its previous title and file, and the REMOVED entry is dropped.
+   * 
+   * @param fileResults - The results collected so far (updated in place)
+   * @param matches - The removed/added test pairs
+   */
+  private applyTestMatches(fileResults: FileAnalysisResult[], matches: TestMatch[]): void {
+    for (const match of matches) {
+      const removedResult = fileResults.find(result => result.filePath === match.removed.filePath);
+      const addedResult = fileResults.find(result => result.filePath === match.added.filePath);
+      const removedIndex = removedResult?.tests.findIndex(test =>
+        test.impactType === 'REMOVED' && test.testName === match.removed.test.name
+      ) ?? -1;
+      const addedTest = addedResult?.tests.find(test =>
+        test.impactType !== 'REMOVED' && test.testName === match.added.test.name
+      );
+
+      if (!removedResult || removedIndex === -1 || !addedTest) {
+        continue;
+      }
+
+      removedResult.tests.splice(removedIndex, 1);
+      if (removedResult.tests.length === 0 && removedResult.status !== 'DELETED') {
+        fileResults.splice(fileResults.indexOf(removedResult), 1);
+      }
+
+      addedTest.impactType = match.removed.filePath === match.added.filePath ? 'RENAMED' : 'MOVED';
+      addedTest.previousName = match.removed.test.name;
+      addedTest.previousFile = match.removed.oldFilePath ?? match.removed.filePath;
+    }
+  }
+
   /**
    * Analyzes a test file to find tests that intersect with changed lines.
    * Also detects REMOVED tests by comparing against the previous commit.
@@ -421,16 +1557,18 @@ export class Analyzer {
    * 3. Dynamic tests are excluded from grep pattern generation
    * 
    * REMOVED Test Detection:
-   * 1. Get current tests from file on disk
+   * 1. Get current tests from the source tree snapshot
    * 2. Get old content from previous commit via gitService
    * 3. Compare to find tests that existed before but are now missing
    * 4. Mark missing tests as REMOVED
+   * 5. Record removed and newly titled tests in the test history, to detect renames and moves
    */
   private async analyzeTestFile(
     absolutePath: string,
     fileDiff: FileDiff,
     prevCommitSha: string | null,
-    gitService: GitService | null
+    gitService: GitService | null,
+    testHistory: TestHistory = { removed: [], added: [] }
   ): Promise<FileAnalysisResult> {
     const tests: ImpactedTest[] = [];
     let hasDynamicTests = false;
@@ -440,17 +1578,22 @@ export class Analyzer {
       // All tests in the deleted file are marked as REMOVED
       if (prevCommitSha && gitService) {
         try {
-          const oldContent = await gitService.getFileContent(prevCommitSha, fileDiff.path);
+          const oldContent = await this.profiler.measureAsync('git', () =>
+            gitService.getFileContent(prevCommitSha, fileDiff.path)
+          );
           if (oldContent) {
             const oldTests = this.extractTestBlocksFromContent(oldContent, fileDiff.path);
             if (oldTests) {
               for (const oldTest of oldTests) {
                 tests.push({
                   testName: oldTest.name,
+                  titlePath: oldTest.titlePath,
                   fileName: fileDiff.path,
                   impactType: 'REMOVED',
                   isDynamic: oldTest.isDynamic,
+                  reasons: [{ file: fileDiff.path }],
                 });
+                testHistory.removed.push({ filePath: fileDiff.path, test: oldTest });
                 if (oldTest.isDynamic) {
                   hasDynamicTests = true;
                 }
@@ -471,31 +1614,62 @@ export class Analyzer {
     }
 
     try {
-      const sourceFile = this.project.addSourceFileAtPath(absolutePath);
-      const currentTestBlocks = this.extractTestBlocks(sourceFile);
+      const sourceFile = this.getSourceFile(absolutePath);
+      if (!sourceFile) {
+        throw new Error(`File not found: ${fileDiff.path}`);
+      }
+      const root = this.testTreeBuilder.build(sourceFile);
+      const currentTestBlocks = this.testTreeBuilder.getAllTests(root);
+      const changedSpans = this.getChangedSpans(fileDiff);
+
+      // Changed hooks, scope configuration and describe headers affect their whole scope
+      const directTests = this.findScopeImpactedTests(
+        root,
+        block => this.hasIntersection(block.startLine, block.endLine, changedSpans),
+        changedSpans
+      );
+
+      // Changed spec-level code outside the tests affects the tests using it
+      const localTests = this.findLocalImpactedTests(sourceFile, root, changedSpans);
+      const localSpans = changedSpans.filter(span => !currentTestBlocks.some(test => this.isSpanInside(span, test)));
 
       // Find tests that intersect with changed lines (DIRECT impact)
       for (const testBlock of currentTestBlocks) {
-        if (this.hasIntersection(testBlock.startLine, testBlock.endLine, fileDiff.changedLines)) {
+        const isDirect = fileDiff.selectAllTests === true ||
+          directTests.has(testBlock) ||
+          this.hasIntersection(testBlock.startLine, testBlock.endLine, changedSpans);
+
+        if (isDirect || localTests.has(testBlock)) {
           if (testBlock.isDynamic) {
             hasDynamicTests = true;
           }
           
           tests.push({
             testName: testBlock.name,
+            titlePath: testBlock.titlePath,
             fileName: fileDiff.path,
-            impactType: 'DIRECT',
+            impactType: isDirect ? 'DIRECT' : 'LOCAL_DEPENDENCY',
             isDynamic: testBlock.isDynamic,
+            reasons: [isDirect
+              ? this.getChangeReason(fileDiff.path, changedSpans, testBlock)
+              : this.getChangeReason(fileDiff.path, localSpans)],
           });
         }
       }
 
-      // Detect REMOVED tests by comparing with previous commit
-      if (prevCommitSha && gitService && fileDiff.status === 'MODIFIED') {
+      if (fileDiff.status === 'ADDED') {
+        currentTestBlocks.forEach(test => testHistory.added.push({ filePath: fileDiff.path, test }));
+      }
+
+      // Detect REMOVED tests by comparing with previous commit (renamed files: their old path)
+      if (prevCommitSha && gitService && (fileDiff.status === 'MODIFIED' || fileDiff.status === 'RENAMED')) {
         try {
-          const oldContent = await gitService.getFileContent(prevCommitSha, fileDiff.path);
+          const oldPath = fileDiff.oldPath ?? fileDiff.path;
+          const oldContent = await this.profiler.measureAsync('git', () =>
+            gitService.getFileContent(prevCommitSha, oldPath)
+          );
           if (oldContent) {
-            const oldTests = this.extractTestBlocksFromContent(oldContent, fileDiff.path);
+            const oldTests = this.extractTestBlocksFromContent(oldContent, oldPath);
             if (oldTests) {
               const removedTestNames = this.findRemovedTests(oldTests, currentTestBlocks);
               
@@ -503,14 +1677,45 @@ export class Analyzer {
                 const oldTest = oldTests.find(t => t.name === removedTestName);
                 tests.push({
                   testName: removedTestName,
+                  titlePath: oldTest?.titlePath,
                   fileName: fileDiff.path,
                   impactType: 'REMOVED',
                   isDynamic: oldTest?.isDynamic ?? false,
+                  reasons: [{ file: fileDiff.path }],
                 });
                 if (oldTest?.isDynamic) {
                   hasDynamicTests = true;
                 }
+                if (oldTest) {
+                  testHistory.removed.push({ filePath: fileDiff.path, oldFilePath: oldPath, test: oldTest });
+                }
               }
+
+              // A rename without hunks changes no line: compare the tests with the old path's instead
+              if (fileDiff.status === 'RENAMED' && changedSpans.length === 0) {
+                for (const testBlock of currentTestBlocks) {
+                  const oldTest = oldTests.find(t => t.name === testBlock.name);
+                  if (!oldTest || oldTest.body !== testBlock.body) {
+                    tests.push({
+                      testName: testBlock.name,
+                      titlePath: testBlock.titlePath,
+                      fileName: fileDiff.path,
+                      impactType: 'DIRECT',
+                      isDynamic: testBlock.isDynamic,
+                      reasons: [{ file: fileDiff.path }],
+                    });
+                    if (testBlock.isDynamic) {
+                      hasDynamicTests = true;
+                    }
+                  }
+                }
+              }
+
+              // Tests under a new title may be renamed versions of the removed ones
+              const oldTestNames = new Set(oldTests.map(t => t.name));
+              currentTestBlocks
+                .filter(test => !oldTestNames.has(test.name))
+                .forEach(test => testHistory.added.push({ filePath: fileDiff.path, test }));
             }
           }
         } catch {
@@ -524,6 +1729,7 @@ export class Analyzer {
     return {
       filePath: fileDiff.path,
       status: fileDiff.status,
+      ...(fileDiff.oldPath ? { oldPath: fileDiff.oldPath } : {}),
       tests,
       hasDynamicTests,
     };
@@ -531,33 +1737,56 @@ export class Analyzer {
 
   /**
    * Analyzes a test file that depends on a changed source file.
-   * Marks all tests as DEPENDENCY impact.
+   * Marks tests as DEPENDENCY impact.
+   * 
+   * Symbol-Level Selection:
+   * When the impacted declarations are known, only tests whose bodies reference them
+   * (directly, or through a local helper declared in the spec) or that destructure an
+   * impacted fixture are selected. A hook or `test.use(...)` referencing them (or using
+   * such a fixture) selects every test in its scope. Any other top-level statement outside
+   * every test referencing them selects all tests, and so does loading the changed files
+   * through `require()` or `import()`.
+   * Without declaration info (whole-file impact), every test is selected.
+   * 
+   * Every selected test is reported with the same impact chain: the import path from the
+   * changed file to the spec.
    * 
    * Dynamic Test Name Handling:
    * If any test has a dynamic name, mark hasDynamicTests: true.
    */
   private analyzeDependentTestFile(
     testFilePath: string,
-    sourceFileDiff: FileDiff
+    sourceFileDiff: FileDiff,
+    dependencyImpact: DependencyImpact | null,
+    reasons: ImpactReason[]
   ): FileAnalysisResult {
     const tests: ImpactedTest[] = [];
     const relativePath = path.relative(this.repoPath, testFilePath);
     let hasDynamicTests = false;
 
     try {
-      const sourceFile = this.project.addSourceFileAtPath(testFilePath);
-      const testBlocks = this.extractTestBlocks(sourceFile);
+      const sourceFile = this.getSourceFile(testFilePath);
+      if (!sourceFile) {
+        throw new Error(`File not found: ${relativePath}`);
+      }
+      const root = this.testTreeBuilder.build(sourceFile);
+      const testBlocks = this.testTreeBuilder.getAllTests(root);
+      const selectedTestBlocks = dependencyImpact
+        ? this.selectReferencingTests(sourceFile, root, dependencyImpact)
+        : testBlocks;
 
-      for (const testBlock of testBlocks) {
+      for (const testBlock of selectedTestBlocks) {
         if (testBlock.isDynamic) {
           hasDynamicTests = true;
         }
         
         tests.push({
           testName: testBlock.name,
+          titlePath: testBlock.titlePath,
           fileName: relativePath,
           impactType: 'DEPENDENCY',
           isDynamic: testBlock.isDynamic,
+          reasons,
         });
       }
     } catch {
@@ -571,4 +1800,58 @@ export class Analyzer {
       hasDynamicTests,
     };
   }
+
+  /**
+   * Selects the tests of a spec that reference any of the impacted declarations.
+   * 
+   * @param sourceFile - The spec file
+   * @param root - The root suite of the spec, whose tests are considered
+   * @param dependencyImpact - The changed declarations and files
+   * @returns The tests affected by the declarations
+   */
+  private selectReferencingTests(
+    sourceFile: SourceFile,
+    root: SuiteBlockInfo,
+    dependencyImpact: DependencyImpact
+  ): TestBlockInfo[] {
+    const testBlocks = this.testTreeBuilder.getAllTests(root);
+
+    // Dynamically loaded modules can't be traced to declarations - assume every test uses them
+    const isLoadedDynamically = this.moduleResolver.getDynamicDependencies(sourceFile.getFilePath())
+      .some(dependency => dependencyImpact.files.has(dependency));
+    if (isLoadedDynamically) {
+      return testBlocks;
+    }
+
+    // Include the spec's own helpers that use the impacted declarations
+    const affectedDeclarations = new Set(dependencyImpact.declarations);
+    this.symbolImpact.propagate(affectedDeclarations, [sourceFile], false);
+
+    // Other top-level code outside every test (setup calls, ...) affects the whole file
+    const isSharedCodeAffected = sourceFile.getStatements().some(statement => {
+      const startLine = statement.getStartLineNumber();
+      const endLine = statement.getEndLineNumber();
+      const containsTest = testBlocks.some(t => t.startLine >= startLine && t.endLine <= endLine);
+      return !containsTest &&
+        !this.symbolImpact.getStatementDeclarations(statement) &&
+        !Node.isImportDeclaration(statement) &&
+        this.symbolImpact.referencesAny(statement, affectedDeclarations);
+    });
+
+    if (isSharedCodeAffected) {
+      return testBlocks;
+    }
+
+    const isAffected = (node: Node) =>
+      this.symbolImpact.referencesAny(node, affectedDeclarations) ||
+      this.fixtureAnalyzer.usesAnyFixture(node, dependencyImpact.fixtures);
+
+    const scopeImpactedTests = this.findScopeImpactedTests(root, block => isAffected(block.node));
+
+    return testBlocks.filter(testBlock =>
+      scopeImpactedTests.has(testBlock) ||
+      isAffected(testBlock.node) ||
+      this.testReferencesAny(testBlock, affectedDeclarations)
+    );
+  }
 }
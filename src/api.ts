@@ -0,0 +1,641 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { performance } from 'perf_hooks';
+import { Project } from 'ts-morph';
+import { GitService } from './git';
+import { Analyzer } from './analyzer';
+import { GitTreeSource, IndexSource, SourceTree, WorkingTreeSource } from './source-tree';
+import { DEFAULT_EXCLUDE, loadConfig, matchesAny, SmartTestConfig, validateConfig } from './config';
+import { AnalysisCache, CACHE_DIR_NAME } from './cache';
+import { createFrameworkAdapter, detectFramework, FrameworkAdapter, FrameworkName, FRAMEWORK_NAMES, isFrameworkName } from './frameworks';
+import { Profiler } from './profiler';
+import { getReachableSubgraph } from './graph-export';
+import {
+  AnalysisReport,
+  FileAnalysisResult,
+  FileDiff,
+  ImpactedTest,
+  ImpactReason,
+  ImpactType,
+  ImportGraph,
+  Logger,
+  TriggeredRule,
+} from './types';
+
+/**
+ * Smart Test Selector API
+ *
+ * The programmatic entry point (the package's `main`): selects the tests to run
+ * in-process, for CI orchestrators and test runner setup scripts. The CLI is a thin
+ * wrapper around it.
+ */
+
+export { GitError, ShallowCloneError } from './git';
+export { ConfigError, SmartTestConfig } from './config';
+export { FrameworkName, FRAMEWORK_NAMES } from './frameworks';
+export { ProfilePhase, ProfileTimings, PROFILE_PHASES } from './profiler';
+export { formatGraph, GraphFormat, GRAPH_FORMATS } from './graph-export';
+export {
+  AnalysisReport,
+  FileAnalysisResult,
+  FileStatus,
+  ImpactedTest,
+  ImpactReason,
+  ImpactType,
+  ImportGraph,
+  ImportGraphEdge,
+  ImportGraphNode,
+  ImportGraphNodeKind,
+  Logger,
+  TriggerAction,
+  TriggeredRule,
+  TriggerRule,
+} from './types';
+
+/**
+ * What selectTests compares:
+ * - commit: the changes a commit introduced, against its parent
+ * - range: every change between a base ref (or its merge-base with the head) and a head ref
+ * - working-tree: uncommitted changes (staged, unstaged and untracked) against HEAD
+ * - staged: changes staged in the index against HEAD
+ * - all: every test of the repository, without git
+ */
+export type SelectionMode = 'commit' | 'range' | 'working-tree' | 'staged' | 'all';
+
+/**
+ * The options of selectTests.
+ */
+export interface SelectTestsOptions {
+  /** Path to the Git repository (relative paths are resolved against the working directory) */
+  repo: string;
+  /** What to compare. Defaults to 'range' when `base` is given, and to 'commit' when `commit` is */
+  mode?: SelectionMode;
+  /** The commit to analyze, for the commit mode */
+  commit?: string;
+  /** Base ref of a range (e.g. origin/main), for the range mode */
+  base?: string;
+  /** Head ref of a range. Defaults to HEAD */
+  head?: string;
+  /** Diff from the merge-base of `base` and `head` instead of `base` itself */
+  mergeBase?: boolean;
+  /**
+   * The project settings, or the path of a config file (relative to the repo).
+   * Defaults to the repo's smart-test.config.ts/.js or .smarttestrc[.json], if any
+   */
+  config?: SmartTestConfig | string;
+  /** The test framework. Defaults to the config's, then to detection from package.json */
+  framework?: FrameworkName;
+  /** Extra callee names to treat as the test function, replacing the config's */
+  testCallees?: string[];
+  /** Read and update the per-file cache in .smart-test-cache/. Defaults to true */
+  cache?: boolean;
+  /** Worker threads to analyze the changed files in. Defaults to 1 (the calling thread) */
+  workers?: number;
+  /** Measure the time spent per phase into the report's `profile`. Defaults to false */
+  profile?: boolean;
+  /** Receives progress messages. Defaults to none */
+  logger?: Logger;
+}
+
+/**
+ * The options of buildImportGraph: the snapshot to build the graph over, like selectTests.
+ */
+export interface ImportGraphOptions extends Omit<SelectTestsOptions, 'workers' | 'profile'> {
+  /**
+   * The snapshot, and the change whose files are marked as changed. Defaults like
+   * selectTests, and to 'all' when neither `commit` nor `base` is given: the working tree,
+   * without git and with no file marked
+   */
+  mode?: SelectionMode;
+  /** Only the subgraph a change to this file reaches: it and every file importing it, transitively */
+  from?: string;
+}
+
+/**
+ * Thrown when the options of selectTests are missing, conflicting or invalid.
+ */
+export class OptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OptionsError';
+  }
+}
+
+/**
+ * JSON output schema for CI pipelines.
+ */
+export interface JsonOutput {
+  files: string[];
+  tests: string[];
+  /** Regex pattern for the runner's title filter (Playwright -g/--grep, Jest -t, ...) */
+  grep: string;
+  /** The test framework the selection was made for */
+  framework: string;
+  /**
+   * Command running the selected tests of the grep-able files, filtered by `grep`.
+   * Files in filesWithDynamicTests must be run separately, without a filter.
+   */
+  runnerArgs: string[];
+  /** Files that contain dynamic test names and must be run in File Mode */
+  filesWithDynamicTests: string[];
+  /** True if any tests have dynamic names requiring File Mode fallback */
+  hasDynamicTests: boolean;
+  /** True if a run-all trigger rule fired: runnerArgs then runs the whole suite */
+  runAll: boolean;
+  /** Playwright projects to run in full, from fired project trigger rules */
+  projects: string[];
+  /** The trigger rules the changed files fired */
+  triggeredRules: TriggeredRule[];
+  /** Every selected test with the chain from the change to it */
+  impacts: JsonImpact[];
+  /** Milliseconds spent per phase, when profiled */
+  profile?: AnalysisReport['profile'];
+}
+
+/**
+ * A selected test in the JSON output, with why it was selected.
+ */
+export interface JsonImpact {
+  file: string;
+  /** The full test title */
+  test: string;
+  impactType: ImpactType;
+  /** The chain from the changed file to the test's spec file */
+  reasons: ImpactReason[];
+}
+
+/** The logger used when none is given */
+const SILENT_LOGGER: Logger = { info: () => {}, warn: () => {} };
+
+/**
+ * Selects the tests to run for a change.
+ *
+ * 1. Resolve the mode, the config and the framework
+ * 2. Fetch the changed files and line numbers from git (or list every test file for 'all')
+ * 3. Analyze them against the snapshot they belong to (see Analyzer)
+ *
+ * An error during the analysis itself doesn't fail the selection: every changed test file
+ * is reported to be run whole instead (hasDynamicTests), with a warning.
+ *
+ * @param options - What to compare, and how
+ * @returns The analysis report
+ * @throws OptionsError if the options are missing, conflicting or invalid
+ * @throws ConfigError if the config file can't be read or doesn't match the schema
+ * @throws ShallowCloneError if the history needed is missing from a shallow clone
+ * @throws GitError if a git command fails (not a repository, unknown ref, ...)
+ */
+export async function selectTests(options: SelectTestsOptions): Promise<AnalysisReport> {
+  const startedAt = performance.now();
+  const profiler = new Profiler();
+  const logger = options.logger ?? SILENT_LOGGER;
+  // Git commands are charged to the git phase of the profile
+  const git = <T>(command: () => Promise<T>): Promise<T> => profiler.measureAsync('git', command);
+
+  const mode = resolveMode(options);
+  const { repoPath, commitSha, config, framework } = setUp(options, mode, logger);
+
+  let changedFiles: FileDiff[];
+  // The commit REMOVED detection compares against (parent commit or range base)
+  let parentCommitSha: string | null = null;
+  const gitService = mode === 'all' ? null : new GitService(repoPath);
+
+  if (!gitService) {
+    logger.info('🔍 Scanning entire repository (Mode: ALL)...');
+    changedFiles = profiler.measure('parse', () => findAllTestFiles(repoPath, framework, config));
+    logger.info(`Found ${changedFiles.length} test file(s) to analyze.`);
+  } else {
+    ({ changedFiles, baseSha: parentCommitSha } = await fetchChanges(options, mode, commitSha, gitService, git));
+
+    // Nothing changed: nothing to analyze
+    if (changedFiles.length === 0) {
+      return {
+        commitSha,
+        ...(parentCommitSha ? { baseSha: parentCommitSha } : {}),
+        repoPath,
+        fileResults: [],
+        totalTestsSelected: 0,
+        triggeredRules: [],
+        framework: framework.name,
+        changedFiles: [],
+        ...(options.profile ? { profile: { ...profiler.getTimings(), total: performance.now() - startedAt } } : {}),
+      };
+    }
+
+    logger.info(`Found ${changedFiles.length} changed file(s).`);
+
+    // Find the parent commit for REMOVED test detection
+    // (range and local modes already compare against the base resolved above)
+    if (parentCommitSha) {
+      logger.info(`Base commit: ${parentCommitSha.substring(0, 8)}...`);
+    } else {
+      try {
+        parentCommitSha = await git(() => gitService.getParentCommitSha(commitSha));
+        if (parentCommitSha) {
+          logger.info(`Parent commit: ${parentCommitSha.substring(0, 8)}...`);
+        }
+      } catch {
+        // No parent commit (initial commit) - continue without REMOVED detection
+        logger.info('No parent commit found (initial commit or shallow clone).');
+      }
+    }
+  }
+
+  // Analyze the changes, reusing the per-file results of earlier runs
+  const sourceTree = await getSourceTree(mode, repoPath, commitSha, gitService, git);
+  const cache = options.cache !== false ? AnalysisCache.open(path.join(repoPath, CACHE_DIR_NAME)) : null;
+  const analyzer = new Analyzer(repoPath, sourceTree, framework, config, cache, profiler, logger);
+
+  // Safety wrap: Catch AST parsing errors and fall back gracefully
+  let report: AnalysisReport;
+  try {
+    const analyzedFiles = changedFiles;
+    report = await profiler.measureAsync('selection', () =>
+      analyzer.analyze(analyzedFiles, commitSha, parentCommitSha, gitService, options.workers ?? 1)
+    );
+    cache?.save();
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    logger.warn(`⚠ Analysis error: ${errorMessage}`);
+    logger.warn('⚠ Falling back to File Mode (all changed files will be tested).');
+
+    // Fallback: Create a minimal report with just file paths
+    const fallbackResults: FileAnalysisResult[] = changedFiles
+      .filter(f => framework.isTestFile(f.path))
+      .map(f => ({
+        filePath: f.path,
+        status: f.status,
+        tests: [],
+        hasDynamicTests: true, // Force file mode
+      }));
+
+    report = {
+      commitSha,
+      ...(parentCommitSha ? { baseSha: parentCommitSha } : {}),
+      repoPath,
+      fileResults: fallbackResults,
+      totalTestsSelected: 0,
+      framework: framework.name,
+      changedFiles: changedFiles.map(f => f.path),
+    };
+  }
+
+  if (options.profile) {
+    report.profile = { ...profiler.getTimings(), total: performance.now() - startedAt };
+  }
+  return report;
+}
+
+/**
+ * Builds the import graph dependency tracking walks, over the snapshot of a mode,
+ * with the files the mode's change touches marked as changed.
+ *
+ * @param options - The snapshot, and the file to start the subgraph at
+ * @returns The import graph (or the subgraph reachable from `from`)
+ * @throws OptionsError if the options are invalid, or `from` is not a code file of the snapshot
+ * @throws ConfigError if the config file can't be read or doesn't match the schema
+ * @throws GitError if a git command fails (not a repository, unknown ref, ...)
+ */
+export async function buildImportGraph(options: ImportGraphOptions): Promise<ImportGraph> {
+  const profiler = new Profiler();
+  const logger = options.logger ?? SILENT_LOGGER;
+  const git = <T>(command: () => Promise<T>): Promise<T> => profiler.measureAsync('git', command);
+
+  const mode = resolveMode(options, 'all');
+  const { repoPath, commitSha, config, framework } = setUp(options, mode, logger);
+
+  const gitService = mode === 'all' ? null : new GitService(repoPath);
+  const changedFiles = gitService ? (await fetchChanges(options, mode, commitSha, gitService, git)).changedFiles : [];
+  if (gitService) {
+    logger.info(`Found ${changedFiles.length} changed file(s).`);
+  }
+
+  const sourceTree = await getSourceTree(mode, repoPath, commitSha, gitService, git);
+  const cache = options.cache !== false ? AnalysisCache.open(path.join(repoPath, CACHE_DIR_NAME)) : null;
+  const analyzer = new Analyzer(repoPath, sourceTree, framework, config, cache, profiler, logger);
+
+  const graph = await analyzer.getImportGraph(changedFiles.map(fileDiff => fileDiff.path));
+  cache?.save();
+
+  if (options.from === undefined) {
+    return graph;
+  }
+  const from = path.relative(repoPath, path.resolve(repoPath, options.from));
+  const subgraph = getReachableSubgraph(graph, from);
+  if (!subgraph) {
+    throw new OptionsError(`Not a code file of the snapshot: ${from}`);
+  }
+  return subgraph;
+}
+
+/**
+ * Converts an analysis report to JSON output format.
+ * Generates the framework's title filter pattern for granular test execution.
+ *
+ * Dynamic Test Name Fallback Strategy:
+ * - Tests with dynamic names (template literals with ${...}) cannot be safely grepped
+ * - If a file contains dynamic tests, it's added to filesWithDynamicTests
+ * - Dynamic tests are EXCLUDED from the grep pattern
+ * - The runner script should detect hasDynamicTests and run those files in File Mode
+ *
+ * Each test contributes its title path (describe titles, then the test title) joined by
+ * spaces by the framework adapter's composeTitle; the runner's title filter matches it
+ * anywhere in the test's full name.
+ *
+ * @param report - The analysis report to convert
+ * @returns JSON output object with files, tests arrays, grep pattern, and dynamic test info
+ */
+export function toJsonOutput(report: AnalysisReport): JsonOutput {
+  const framework = createFrameworkAdapter(report.framework);
+  const filesSet = new Set<string>();
+  const testsSet = new Set<string>();
+  const grepTitlesSet = new Set<string>();
+  const dynamicFilesSet = new Set<string>();
+  let hasDynamicTests = false;
+
+  for (const fileResult of report.fileResults) {
+    // Check if this file has dynamic tests
+    if (fileResult.hasDynamicTests) {
+      hasDynamicTests = true;
+      dynamicFilesSet.add(fileResult.filePath);
+      // Still add to files list for File Mode execution
+      filesSet.add(fileResult.filePath);
+      // Skip adding tests from this file to the grep pattern
+      continue;
+    }
+
+    // Add file path if it has impacted tests
+    if (fileResult.tests.length > 0) {
+      filesSet.add(fileResult.filePath);
+    }
+
+    // Add each non-dynamic test name
+    for (const test of fileResult.tests) {
+      // Double-check: skip individual dynamic tests even if file isn't flagged
+      if (test.isDynamic) {
+        hasDynamicTests = true;
+        dynamicFilesSet.add(fileResult.filePath);
+        continue;
+      }
+      testsSet.add(test.testName);
+      grepTitlesSet.add(framework.composeTitle(test.titlePath ?? [test.testName]));
+    }
+  }
+
+  const testsArray = Array.from(testsSet);
+
+  const grepTitles = Array.from(grepTitlesSet);
+
+  // Generate the runner's title pattern
+  // Only include non-dynamic test names
+  const grepPattern = framework.buildTitlePattern(grepTitles);
+
+  const grepFiles = Array.from(filesSet).filter(file => !dynamicFilesSet.has(file));
+  const triggeredRules = report.triggeredRules ?? [];
+  const runAll = triggeredRules.some(rule => rule.action === 'run-all');
+  const projects = triggeredRules.flatMap(rule => rule.action === 'project' && rule.project ? [rule.project] : []);
+
+  // A run-all rule runs the whole suite, without a title filter
+  const runnerArgs = runAll
+    ? framework.getRunnerArgs([], '')
+    : grepFiles.length > 0 ? framework.getRunnerArgs(grepFiles, grepPattern) : [];
+
+  return {
+    files: Array.from(filesSet),
+    tests: testsArray,
+    grep: grepPattern,
+    framework: framework.name,
+    runnerArgs,
+    filesWithDynamicTests: Array.from(dynamicFilesSet),
+    hasDynamicTests,
+    runAll,
+    projects: Array.from(new Set(projects)),
+    triggeredRules,
+    impacts: report.fileResults.flatMap(fileResult => fileResult.tests.map(toJsonImpact)),
+    ...(report.profile ? { profile: report.profile } : {}),
+  };
+}
+
+/**
+ * Converts a selected test to its JSON output entry.
+ *
+ * @param test - The selected test
+ * @returns The test's file, title, impact type and impact chain
+ */
+export function toJsonImpact(test: ImpactedTest): JsonImpact {
+  return { file: test.fileName, test: test.testName, impactType: test.impactType, reasons: test.reasons };
+}
+
+/**
+ * Resolves the mode of a selection, from the options that imply one when it isn't given.
+ *
+ * @param options - The selectTests options
+ * @param defaultMode - The mode when none is given or implied
+ * @returns The mode
+ * @throws OptionsError if no mode is given or implied, and there is no default
+ */
+function resolveMode(options: SelectTestsOptions, defaultMode?: SelectionMode): SelectionMode {
+  if (options.mode) {
+    return options.mode;
+  }
+  if (options.base) {
+    return 'range';
+  }
+  if (options.commit) {
+    return 'commit';
+  }
+  if (defaultMode) {
+    return defaultMode;
+  }
+  throw new OptionsError('A mode must be given (commit, range, working-tree, staged or all), or a commit or base ref');
+}
+
+/**
+ * Validates the options and resolves the repository, the config and the framework.
+ *
+ * @param options - The selectTests options
+ * @param mode - The resolved mode
+ * @param logger - Receives the resolved settings
+ * @returns The absolute repository path, the analyzed commit (or mode name), the config and the framework
+ * @throws OptionsError if the options are invalid
+ * @throws ConfigError if the config file can't be read or doesn't match the schema
+ */
+function setUp(
+  options: SelectTestsOptions,
+  mode: SelectionMode,
+  logger: Logger
+): { repoPath: string; commitSha: string; config: SmartTestConfig; framework: FrameworkAdapter } {
+  // Resolve the repository path (handles relative paths)
+  const repoPath = path.resolve(options.repo);
+  validateOptions(options, mode, repoPath);
+
+  const headRef = options.head ?? 'HEAD';
+  const commitSha = mode === 'range'
+    ? headRef
+    : mode === 'working-tree'
+      ? 'WORKING_TREE'
+      : mode === 'staged'
+        ? 'STAGED'
+        : mode === 'commit' ? options.commit ?? '' : 'ALL';
+
+  // Load the project config; explicit options override its values
+  const loadedConfig = typeof options.config === 'object'
+    ? { config: validateConfig(options.config, 'the config option'), filePath: null }
+    : loadConfig(repoPath, options.config);
+  const config = loadedConfig?.config ?? {};
+
+  // Pick the framework adapter: the option wins over the config, which wins over package.json detection
+  const framework = createFrameworkAdapter(
+    options.framework ?? config.framework ?? detectFramework(repoPath),
+    { extraTestCallees: options.testCallees ?? config.testCallees, testMatch: config.testMatch }
+  );
+
+  logger.info('Analyzing changes...');
+  logger.info(`Repository: ${repoPath}`);
+  logger.info(`Framework: ${framework.name}`);
+  if (loadedConfig?.filePath) {
+    logger.info(`Config: ${path.relative(repoPath, loadedConfig.filePath)}`);
+  }
+  if (mode === 'range') {
+    logger.info(`Range: ${options.base}${options.mergeBase ? '...' : '..'}${headRef}`);
+  } else {
+    logger.info(`Commit: ${commitSha}`);
+  }
+
+  return { repoPath, commitSha, config, framework };
+}
+
+/**
+ * Fetches the changed files of a git mode.
+ *
+ * @param options - The selectTests options
+ * @param mode - The resolved mode (not 'all')
+ * @param commitSha - The analyzed commit, for the commit mode
+ * @param gitService - The repository's git service
+ * @param git - Runs a git command, charging it to the profile
+ * @returns The changed files, and the commit they are compared against in the range and
+ *   local modes (null in the commit mode, whose parent is resolved separately)
+ */
+async function fetchChanges(
+  options: SelectTestsOptions,
+  mode: SelectionMode,
+  commitSha: string,
+  gitService: GitService,
+  git: <T>(command: () => Promise<T>) => Promise<T>
+): Promise<{ changedFiles: FileDiff[]; baseSha: string | null }> {
+  if (mode === 'working-tree' || mode === 'staged') {
+    // Local mode: uncommitted edits, compared against HEAD
+    const baseSha = await git(() => gitService.resolveRef('HEAD'));
+    const changedFiles = mode === 'working-tree'
+      ? await git(() => gitService.getWorkingTreeChanges())
+      : await git(() => gitService.getStagedChanges());
+    return { changedFiles, baseSha };
+  }
+
+  if (mode === 'range') {
+    // Range mode: one merged diff of the whole PR, compared against its base
+    const baseRef = options.base ?? '';
+    const headRef = options.head ?? 'HEAD';
+    const baseSha = options.mergeBase
+      ? await git(() => gitService.getMergeBase(baseRef, headRef))
+      : await git(() => gitService.resolveRef(baseRef));
+    return { changedFiles: await git(() => gitService.getChangedFilesInRange(baseSha, headRef)), baseSha };
+  }
+
+  return { changedFiles: await git(() => gitService.getChangedFiles(commitSha)), baseSha: null };
+}
+
+/**
+ * Picks the snapshot the changed line numbers refer to, so files are never read
+ * from a checkout that belongs to a different commit.
+ *
+ * @param mode - The resolved mode
+ * @param repoPath - The absolute repository path
+ * @param commitSha - The analyzed commit (or head ref), for the commit and range modes
+ * @param gitService - The repository's git service (null for 'all')
+ * @param git - Runs a git command, charging it to the profile
+ * @returns The snapshot
+ */
+async function getSourceTree(
+  mode: SelectionMode,
+  repoPath: string,
+  commitSha: string,
+  gitService: GitService | null,
+  git: <T>(command: () => Promise<T>) => Promise<T>
+): Promise<SourceTree> {
+  if (!gitService) {
+    return new WorkingTreeSource(repoPath);
+  }
+  if (mode === 'working-tree') {
+    return new WorkingTreeSource(repoPath, gitService);
+  }
+  if (mode === 'staged') {
+    return new IndexSource(gitService);
+  }
+  return new GitTreeSource(gitService, await git(() => gitService.resolveRef(commitSha)));
+}
+
+/**
+ * Checks the options of a selection against its mode and the repository path.
+ *
+ * @param options - The selectTests options
+ * @param mode - The resolved mode
+ * @param repoPath - The absolute repository path
+ * @throws OptionsError naming the first problem
+ */
+function validateOptions(options: SelectTestsOptions, mode: SelectionMode, repoPath: string): void {
+  const problem = !['commit', 'range', 'working-tree', 'staged', 'all'].includes(mode)
+    ? `Unknown mode "${mode}"`
+    : mode === 'commit' && !options.commit
+      ? 'The commit mode requires a commit'
+      : mode === 'range' && !options.base
+        ? 'The range mode requires a base ref'
+        : mode !== 'range' && (options.head || options.mergeBase)
+          ? 'A head ref and merge-base require the range mode'
+          : options.framework && !isFrameworkName(options.framework)
+            ? `Unknown framework "${options.framework}" (expected one of: ${FRAMEWORK_NAMES.join(', ')})`
+            : options.workers !== undefined && !(Number.isInteger(options.workers) && options.workers > 0)
+              ? `Workers must be a positive integer (got ${options.workers})`
+              : !fs.existsSync(repoPath)
+                ? `Repository path does not exist: ${repoPath}`
+                : !fs.statSync(repoPath).isDirectory()
+                  ? `Path is not a directory: ${repoPath}`
+                  : null;
+
+  if (problem) {
+    throw new OptionsError(problem);
+  }
+}
+
+/**
+ * Lists every test file of the repository as a changed file, for the 'all' mode.
+ *
+ * @param repoPath - The repository root
+ * @param framework - The framework whose test file globs are used
+ * @param config - The project settings (excludes)
+ * @returns One MODIFIED FileDiff selecting all its tests per test file
+ */
+function findAllTestFiles(repoPath: string, framework: FrameworkAdapter, config: SmartTestConfig): FileDiff[] {
+  // Initialize Project WITHOUT tsconfig to avoid "exclude" rules
+  // This ensures we find ALL test files including example.spec.ts
+  const project = new Project({
+    // Don't use tsconfig - it may exclude files we want to analyze
+    compilerOptions: { allowJs: true },
+  });
+
+  // Manually add source files using the framework's test file globs
+  // This forces finding ALL test files regardless of tsconfig exclusions
+  project.addSourceFilesAtPaths(framework.testFileGlobs.map(glob => path.join(repoPath, glob)));
+
+  // Filter out node_modules (or the configured excludes) and map to FileDiff structure
+  return project.getSourceFiles()
+    .filter(file => {
+      const filePath = path.relative(repoPath, file.getFilePath());
+      return !matchesAny(filePath, config.exclude ?? DEFAULT_EXCLUDE);
+    })
+    .map(file => ({
+      path: path.relative(repoPath, file.getFilePath()),
+      status: 'MODIFIED' as const, // Pretend everything is modified so the analyzer checks it
+      changedLines: [], // Empty since we're analyzing all tests
+      selectAllTests: true,
+    }));
+}
@@ -0,0 +1,286 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ModuleReference } from './module-resolver';
+
+/** The cache directory, created in the analyzed repo's root */
+export const CACHE_DIR_NAME = '.smart-test-cache';
+
+/** The cache file inside the cache directory */
+const CACHE_FILE_NAME = 'analysis.json';
+
+/**
+ * The version of the cached data. A cache written with another version is discarded as a whole.
+ *
+ * Bump it whenever the shape of the cached data changes, and whenever the extraction it
+ * comes from does (what counts as an import, an export, a fixture or a test): entries are
+ * keyed by content, so nothing else tells a stale entry from a current one. Releases
+ * discard the cache anyway (see TOOL_VERSION), so this covers the commits in between.
+ */
+export const CACHE_VERSION = 4;
+
+/** The tool's version from package.json: a cache written by another release is discarded as a whole */
+export const TOOL_VERSION = getToolVersion();
+
+/**
+ * What a file declares, read from its syntax alone. It only depends on the file's
+ * content, so it is shared by every file (and every commit) with the same blob.
+ */
+export interface CachedFileInfo {
+  /** The module specifiers the file loads (resolved on each run, as resolution depends on the other files) */
+  imports: ModuleReference[];
+  /** The names the file exports */
+  exports: string[];
+  /** The names of the fixtures the file defines with `test.extend({...})` */
+  fixtures: string[];
+}
+
+/**
+ * A test of a spec file, as far as selecting it needs.
+ */
+export interface CachedTestBlock {
+  name: string;
+  titlePath: string[];
+  isDynamic: boolean;
+  tags: string[];
+}
+
+/**
+ * The tests of a spec file. Test titles may use constants and wrappers from other files,
+ * so they are stored under a key covering the spec and everything it (transitively) imports.
+ */
+export interface CachedTests {
+  key: string;
+  tests: CachedTestBlock[];
+}
+
+/**
+ * The entries a worker thread's cache added and the files it tracked.
+ * Only the main thread writes the cache file, so workers hand these over (see applyUpdates).
+ */
+export interface CacheUpdates {
+  files: Record<string, CachedFileInfo>;
+  tests: Record<string, CachedTests>;
+  liveFiles: string[];
+  liveTests: string[];
+}
+
+/**
+ * The cache file's contents.
+ */
+interface CacheContents {
+  /** The TOOL_VERSION the cache was written with */
+  version: string;
+  /** The CACHE_VERSION the cache was written with */
+  cacheVersion: number;
+  /** File infos by git blob SHA */
+  files: Record<string, CachedFileInfo>;
+  /** Spec tests by repo-relative path */
+  tests: Record<string, CachedTests>;
+}
+
+/**
+ * AnalysisCache persists per-file analysis results across runs in `.smart-test-cache/`,
+ * so only files whose content changed since the last run are parsed again.
+ *
+ * Invalidation:
+ * - File infos are keyed by the file's git blob SHA: a changed file gets a new key
+ * - Spec tests are keyed by the blob SHAs of the spec and its transitive imports, the
+ *   tsconfig and the settings, so a change to any of them re-extracts the tests
+ * - A cache written by another tool version or with another CACHE_VERSION is discarded as a whole
+ *
+ * Entries of files that none of the run's snapshots hold are dropped on save,
+ * so the cache doesn't grow with the history.
+ */
+export class AnalysisCache {
+  private filePath: string;
+  private contents: CacheContents;
+  private liveFiles = new Set<string>();
+  private liveTests = new Set<string>();
+  /** Entries set since the cache was opened */
+  private addedFiles: Record<string, CachedFileInfo> = {};
+  private addedTests: Record<string, CachedTests> = {};
+  private isDirty = false;
+
+  /**
+   * @param filePath - The cache file
+   * @param contents - The loaded (or empty) contents
+   */
+  private constructor(filePath: string, contents: CacheContents) {
+    this.filePath = filePath;
+    this.contents = contents;
+  }
+
+  /**
+   * Opens the cache of a directory. A missing, unreadable, malformed or outdated cache starts empty.
+   *
+   * @param cacheDir - The cache directory
+   * @returns The cache
+   */
+  static open(cacheDir: string): AnalysisCache {
+    const filePath = path.join(cacheDir, CACHE_FILE_NAME);
+    const empty: CacheContents = { version: TOOL_VERSION, cacheVersion: CACHE_VERSION, files: {}, tests: {} };
+
+    try {
+      const contents: Partial<CacheContents> | null = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      const isCurrent = contents?.version === TOOL_VERSION && contents.cacheVersion === CACHE_VERSION;
+      // A file that parses but isn't a cache (edited by hand, truncated to `null`, ...) is dropped too
+      const isValid = isRecord(contents?.files) && isRecord(contents?.tests);
+      return new AnalysisCache(filePath, isCurrent && isValid ? contents as CacheContents : empty);
+    } catch {
+      // No cache yet, or a corrupt one - start over
+      return new AnalysisCache(filePath, empty);
+    }
+  }
+
+  /**
+   * @returns The cache directory
+   */
+  getDirectory(): string {
+    return path.dirname(this.filePath);
+  }
+
+  /**
+   * Marks a file of an analyzed snapshot as live, keeping its entries on save.
+   *
+   * @param relativePath - The file path, relative to the repo root
+   * @param blobSha - The file's blob SHA
+   */
+  track(relativePath: string, blobSha: string): void {
+    this.liveFiles.add(blobSha);
+    this.liveTests.add(relativePath);
+  }
+
+  /**
+   * @param blobSha - The file's blob SHA
+   * @returns The cached info of the file content, or undefined
+   */
+  getFileInfo(blobSha: string): CachedFileInfo | undefined {
+    return this.contents.files[blobSha];
+  }
+
+  /**
+   * @param blobSha - The file's blob SHA
+   * @param info - The info to cache
+   */
+  setFileInfo(blobSha: string, info: CachedFileInfo): void {
+    this.contents.files[blobSha] = info;
+    this.addedFiles[blobSha] = info;
+    this.isDirty = true;
+  }
+
+  /**
+   * @param relativePath - The spec path, relative to the repo root
+   * @param key - The key of the spec's current content and imports (see getTestsKey in Analyzer)
+   * @returns The cached tests, or undefined if none were cached under this key
+   */
+  getTests(relativePath: string, key: string): CachedTestBlock[] | undefined {
+    const entry = this.contents.tests[relativePath];
+    return entry?.key === key ? entry.tests : undefined;
+  }
+
+  /**
+   * @param relativePath - The spec path, relative to the repo root
+   * @param key - The key of the spec's current content and imports
+   * @param tests - The tests to cache
+   */
+  setTests(relativePath: string, key: string, tests: CachedTestBlock[]): void {
+    this.contents.tests[relativePath] = { key, tests };
+    this.addedTests[relativePath] = { key, tests };
+    this.isDirty = true;
+  }
+
+  /**
+   * @returns The entries set and the files tracked since the cache was opened
+   */
+  getUpdates(): CacheUpdates {
+    return {
+      files: this.addedFiles,
+      tests: this.addedTests,
+      liveFiles: Array.from(this.liveFiles),
+      liveTests: Array.from(this.liveTests),
+    };
+  }
+
+  /**
+   * Takes over the entries and tracked files of another cache (a worker thread's).
+   * @param updates - The other cache's updates
+   */
+  applyUpdates(updates: CacheUpdates): void {
+    Object.entries(updates.files).forEach(([blobSha, info]) => this.setFileInfo(blobSha, info));
+    Object.entries(updates.tests).forEach(([filePath, entry]) => this.setTests(filePath, entry.key, entry.tests));
+    updates.liveFiles.forEach(blobSha => this.liveFiles.add(blobSha));
+    updates.liveTests.forEach(filePath => this.liveTests.add(filePath));
+  }
+
+  /**
+   * Writes the cache back, without the entries of files no snapshot of this run holds.
+   * Failing to write (read-only checkout, ...) only costs the next run its cache hits.
+   */
+  save(): void {
+    if (!this.isDirty) {
+      return;
+    }
+
+    const contents: CacheContents = {
+      ...this.contents,
+      files: Object.fromEntries(Object.entries(this.contents.files).filter(([blobSha]) => this.liveFiles.has(blobSha))),
+      tests: Object.fromEntries(Object.entries(this.contents.tests).filter(([filePath]) => this.liveTests.has(filePath))),
+    };
+
+    try {
+      const cacheDir = path.dirname(this.filePath);
+      fs.mkdirSync(cacheDir, { recursive: true });
+      // Keeps the cache out of `git status` (and --working-tree changes) without touching the repo's .gitignore
+      fs.writeFileSync(path.join(cacheDir, '.gitignore'), '*\n');
+      fs.writeFileSync(this.filePath, JSON.stringify(contents));
+      this.isDirty = false;
+    } catch {
+      // Cache is an optimization - never fail the analysis over it
+    }
+  }
+}
+
+/**
+ * Computes the git blob SHA of a file's content (`git hash-object`), so the same
+ * content is recognized whichever snapshot (commit, index, working tree) it was read from.
+ *
+ * @param content - The file content
+ * @returns The SHA-1 hex digest
+ */
+export function getBlobSha(content: string): string {
+  const buffer = Buffer.from(content, 'utf-8');
+  return crypto.createHash('sha1').update(`blob ${buffer.length}\0`).update(buffer).digest('hex');
+}
+
+/**
+ * Hashes strings into one cache key.
+ * @param parts - The strings
+ * @returns The SHA-1 hex digest
+ */
+export function hashParts(parts: string[]): string {
+  const hash = crypto.createHash('sha1');
+  parts.forEach(part => hash.update(part).update('\0'));
+  return hash.digest('hex');
+}
+
+/**
+ * Checks that a parsed JSON value is a plain object (not null, not an array).
+ * @param value - The value
+ * @returns True if the value is an object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads the tool's version from its package.json (next to src/ and dist/).
+ * @returns The version, or "unknown"
+ */
+function getToolVersion(): string {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf-8')).version ?? 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
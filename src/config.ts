@@ -0,0 +1,263 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vm from 'vm';
+import { createRequire } from 'module';
+import { Minimatch } from 'minimatch';
+import { ts } from 'ts-morph';
+import { FRAMEWORK_NAMES, FrameworkName, isFrameworkName } from './frameworks';
+import { TriggerAction, TriggerRule } from './types';
+
+/**
+ * Project settings, read from a config file in the repo root.
+ * Every path and glob is relative to the repo root.
+ */
+export interface SmartTestConfig {
+  /** Globs of the test files, replacing the framework's defaults */
+  testMatch?: string[];
+  /**
+   * Directories of the shared code (helpers, fixtures, page objects) traced to the tests
+   * importing it. Changed code outside them is not traced. Defaults to the whole repo.
+   */
+  helperRoots?: string[];
+  /** Globs of files left out of the analysis. Defaults to node_modules */
+  exclude?: string[];
+  /** The test framework, instead of detecting it from package.json */
+  framework?: FrameworkName;
+  /** The tsconfig the project is analyzed with. Defaults to tsconfig.json */
+  tsconfig?: string;
+  /** Globs of test files selected on every run (smoke suites) */
+  alwaysRun?: string[];
+  /** Globs of files whose change selects every test (shorthand for a run-all trigger) */
+  runAllOn?: string[];
+  /** Trigger rules for changed files, checked before the framework's default rules */
+  triggers?: TriggerRule[];
+  /** Extra callee names treated as the framework's test function */
+  testCallees?: string[];
+}
+
+/**
+ * Thrown when a config file can't be read or doesn't match the schema.
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/** Config file names, looked up in the repo root in this order */
+export const CONFIG_FILE_NAMES = ['smart-test.config.ts', 'smart-test.config.js', '.smarttestrc', '.smarttestrc.json'];
+
+/** Files excluded when the config doesn't set `exclude` */
+export const DEFAULT_EXCLUDE = ['**/node_modules/**'];
+
+/** Settings holding string arrays */
+const STRING_ARRAY_KEYS = ['testMatch', 'helperRoots', 'exclude', 'alwaysRun', 'runAllOn', 'testCallees'] as const;
+
+/** Every setting, for unknown-key errors */
+const CONFIG_KEYS = [...STRING_ARRAY_KEYS, 'framework', 'tsconfig', 'triggers'];
+
+/** The actions a trigger rule can take */
+const TRIGGER_ACTIONS: TriggerAction[] = ['run-all', 'project', 'tag', 'ignore'];
+
+/** Every trigger rule setting, for unknown-key errors */
+const TRIGGER_KEYS = ['name', 'files', 'action', 'project', 'tag'];
+
+/** Compiled globs, since the same few globs are matched against every file of the project */
+const matcherCache = new Map<string, Minimatch>();
+
+/**
+ * Finds and loads the project config.
+ *
+ * @param repoPath - The repository root
+ * @param configPath - An explicit config file (--config), instead of looking one up
+ * @returns The validated config and the file it came from, or null if the repo has none
+ * @throws ConfigError if the file can't be read, evaluated or validated
+ */
+export function loadConfig(repoPath: string, configPath?: string): { config: SmartTestConfig; filePath: string } | null {
+  const filePath = configPath
+    ? path.resolve(repoPath, configPath)
+    : CONFIG_FILE_NAMES.map(name => path.join(repoPath, name)).find(candidate => fs.existsSync(candidate));
+
+  if (!filePath) {
+    return null;
+  }
+
+  const fileName = path.relative(repoPath, filePath) || filePath;
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    throw new ConfigError(`Cannot read config file ${fileName}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = /\.[jt]s$/.test(filePath) ? evaluateModule(content, filePath) : JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`Cannot parse config file ${fileName}: ${message}`);
+  }
+
+  return { config: validateConfig(raw, fileName), filePath };
+}
+
+/**
+ * Checks a parsed config against the schema.
+ *
+ * @param raw - The parsed config
+ * @param source - The config file name (or the API option it was given in), for error messages
+ * @returns The config
+ * @throws ConfigError naming the first invalid setting
+ */
+export function validateConfig(raw: unknown, source: string): SmartTestConfig {
+  const fail = (message: string): never => {
+    throw new ConfigError(`Invalid config in ${source}: ${message}`);
+  };
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return fail('expected an object of settings');
+  }
+
+  const settings = raw as Record<string, unknown>;
+
+  for (const key of Object.keys(settings)) {
+    if (!CONFIG_KEYS.includes(key)) {
+      fail(`unknown setting "${key}" (expected one of: ${CONFIG_KEYS.join(', ')})`);
+    }
+  }
+
+  for (const key of STRING_ARRAY_KEYS) {
+    const value = settings[key];
+    if (value === undefined) continue;
+    if (!Array.isArray(value)) {
+      fail(`"${key}" must be an array of strings, got ${describeValue(value)}`);
+    }
+    (value as unknown[]).forEach((item, index) => {
+      if (typeof item !== 'string' || item.length === 0) {
+        fail(`"${key}[${index}]" must be a non-empty string, got ${describeValue(item)}`);
+      }
+    });
+  }
+
+  if (settings.framework !== undefined && (typeof settings.framework !== 'string' || !isFrameworkName(settings.framework))) {
+    fail(`"framework" must be one of: ${FRAMEWORK_NAMES.join(', ')}, got ${describeValue(settings.framework)}`);
+  }
+
+  if (settings.tsconfig !== undefined && (typeof settings.tsconfig !== 'string' || settings.tsconfig.length === 0)) {
+    fail(`"tsconfig" must be a file path, got ${describeValue(settings.tsconfig)}`);
+  }
+
+  if (settings.triggers !== undefined) {
+    if (!Array.isArray(settings.triggers)) {
+      fail(`"triggers" must be an array of rules, got ${describeValue(settings.triggers)}`);
+    }
+    (settings.triggers as unknown[]).forEach((rule, index) => validateTriggerRule(rule, `triggers[${index}]`, fail));
+  }
+
+  return settings as SmartTestConfig;
+}
+
+/**
+ * Checks a trigger rule against the schema.
+ *
+ * @param raw - The parsed rule
+ * @param key - The rule's position in the config, for error messages
+ * @param fail - Throws the ConfigError
+ */
+function validateTriggerRule(raw: unknown, key: string, fail: (message: string) => never): void {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    fail(`"${key}" must be an object, got ${describeValue(raw)}`);
+  }
+
+  const rule = raw as Record<string, unknown>;
+
+  for (const ruleKey of Object.keys(rule)) {
+    if (!TRIGGER_KEYS.includes(ruleKey)) {
+      fail(`unknown setting "${key}.${ruleKey}" (expected one of: ${TRIGGER_KEYS.join(', ')})`);
+    }
+  }
+
+  const files = rule.files;
+  if (!Array.isArray(files) || files.length === 0 || files.some(glob => typeof glob !== 'string' || glob.length === 0)) {
+    fail(`"${key}.files" must be a non-empty array of globs, got ${describeValue(files)}`);
+  }
+
+  if (typeof rule.action !== 'string' || !TRIGGER_ACTIONS.includes(rule.action as TriggerAction)) {
+    fail(`"${key}.action" must be one of: ${TRIGGER_ACTIONS.join(', ')}, got ${describeValue(rule.action)}`);
+  }
+
+  for (const optionalKey of ['name', 'project', 'tag']) {
+    const value = rule[optionalKey];
+    if (value !== undefined && (typeof value !== 'string' || value.length === 0)) {
+      fail(`"${key}.${optionalKey}" must be a non-empty string, got ${describeValue(value)}`);
+    }
+  }
+
+  if (rule.action === 'project' && rule.project === undefined) {
+    fail(`"${key}.project" is required for the "project" action`);
+  }
+
+  if (rule.action === 'tag' && rule.tag === undefined) {
+    fail(`"${key}.tag" is required for the "tag" action`);
+  }
+}
+
+/**
+ * Checks if a repo-relative path matches any of a list of globs.
+ *
+ * @param relativePath - The path, relative to the repo root
+ * @param globs - The globs
+ * @returns True if a glob matches
+ */
+export function matchesAny(relativePath: string, globs: string[]): boolean {
+  const normalizedPath = relativePath.split(path.sep).join('/');
+  return globs.some(glob => {
+    let matcher = matcherCache.get(glob);
+    if (!matcher) {
+      matcher = new Minimatch(glob, { dot: true });
+      matcherCache.set(glob, matcher);
+    }
+    return matcher.match(normalizedPath);
+  });
+}
+
+/**
+ * Evaluates a JavaScript or TypeScript config module and returns its export
+ * (`export default {...}` or `module.exports = {...}`).
+ *
+ * @param content - The module source
+ * @param filePath - The module path, for relative requires
+ * @returns The exported config
+ */
+function evaluateModule(content: string, filePath: string): unknown {
+  const { outputText } = ts.transpileModule(content, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+    fileName: filePath,
+  });
+
+  const module = { exports: {} as Record<string, unknown> };
+  vm.runInNewContext(outputText, {
+    module,
+    exports: module.exports,
+    require: createRequire(filePath),
+    __filename: filePath,
+    __dirname: path.dirname(filePath),
+    process,
+  }, { filename: filePath });
+
+  const exported = module.exports;
+  return exported && typeof exported === 'object' && 'default' in exported ? exported.default : exported;
+}
+
+/**
+ * Describes a value's type for error messages.
+ * @param value - The value
+ * @returns e.g. "a number", "null", "an array"
+ */
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value}"`;
+  return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+}
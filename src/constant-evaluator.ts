@@ -0,0 +1,322 @@
+import { Node, VariableDeclarationKind } from 'ts-morph';
+
+/**
+ * A value known at analysis time.
+ */
+export type ConstantValue = string | number | boolean;
+
+/**
+ * A constant, or an array or object literal made of static values - the data
+ * parameterized tests are generated from (`const USERS = [{ name: 'alice' }]`).
+ */
+export type StaticValue = ConstantValue | StaticValue[] | { [key: string]: StaticValue };
+
+/**
+ * Values bound to declarations for one iteration of a parameterized test:
+ * the loop variable, `forEach` callback parameter or `test.each` row parameter.
+ */
+export type Bindings = Map<Node, StaticValue>;
+
+/**
+ * ConstantEvaluator computes the value of expressions that are constant at analysis time,
+ * such as the `${ROLE}` in `` test(`login as ${ROLE}`, ...) ``.
+ *
+ * Supported expressions:
+ * - String, number and boolean literals, template literals
+ * - `const` identifiers, followed through imports and re-exports by the type checker
+ * - Enum members (`Role.Admin`)
+ * - `+` (string concatenation and numeric addition)
+ * - Array and object literals, with property and element access (`USERS[0].name`)
+ * - Anything the type checker types as a single literal (e.g. members of `as const` objects)
+ * - Declarations bound to a value for the current iteration of a parameterized test
+ *
+ * Anything else (function calls, `let` variables, unbound parameters) is not constant.
+ */
+export class ConstantEvaluator {
+  /**
+   * Evaluates an expression to a string, number or boolean.
+   *
+   * @param node - The expression to evaluate
+   * @param bindings - Values of the loop variables and parameters in scope
+   * @returns The value, or undefined if the expression is not constant
+   */
+  evaluate(node: Node, bindings: Bindings = new Map()): ConstantValue | undefined {
+    const value = this.evaluateNode(node, bindings, new Set());
+    return this.isConstant(value) ? value : undefined;
+  }
+
+  /**
+   * Evaluates an expression that may also be an array or object literal.
+   *
+   * @param node - The expression to evaluate
+   * @param bindings - Values of the loop variables and parameters in scope
+   * @returns The value, or undefined if the expression is not static
+   */
+  evaluateStatic(node: Node, bindings: Bindings = new Map()): StaticValue | undefined {
+    return this.evaluateNode(node, bindings, new Set());
+  }
+
+  /**
+   * Checks if a static value is a string, number or boolean.
+   * @param value - The value to check
+   * @returns True for constants
+   */
+  isConstant(value: StaticValue | undefined): value is ConstantValue {
+    return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+  }
+
+  /**
+   * Evaluates an expression, tracking the declarations being followed to stop on cycles
+   * (`const A = B; const B = A;`).
+   *
+   * @param node - The expression to evaluate
+   * @param bindings - Values of the loop variables and parameters in scope
+   * @param visiting - The declarations currently being evaluated
+   * @returns The value, or undefined if the expression is not static
+   */
+  private evaluateNode(node: Node, bindings: Bindings, visiting: Set<Node>): StaticValue | undefined {
+    if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+      return node.getLiteralValue();
+    }
+
+    if (Node.isNumericLiteral(node)) {
+      return node.getLiteralValue();
+    }
+
+    if (Node.isTrueLiteral(node) || Node.isFalseLiteral(node)) {
+      return node.getLiteralValue();
+    }
+
+    if (Node.isTemplateExpression(node)) {
+      let value = node.getHead().getLiteralText();
+      for (const span of node.getTemplateSpans()) {
+        const spanValue = this.evaluateNode(span.getExpression(), bindings, visiting);
+        if (!this.isConstant(spanValue)) {
+          return undefined;
+        }
+        value += String(spanValue) + span.getLiteral().getLiteralText();
+      }
+      return value;
+    }
+
+    // Wrappers that don't change the value: (x), x as const, x!, x satisfies T
+    if (
+      Node.isParenthesizedExpression(node) ||
+      Node.isAsExpression(node) ||
+      Node.isNonNullExpression(node) ||
+      Node.isSatisfiesExpression(node)
+    ) {
+      return this.evaluateNode(node.getExpression(), bindings, visiting);
+    }
+
+    if (Node.isBinaryExpression(node) && node.getOperatorToken().getText() === '+') {
+      const left = this.evaluateNode(node.getLeft(), bindings, visiting);
+      const right = this.evaluateNode(node.getRight(), bindings, visiting);
+      if (!this.isConstant(left) || !this.isConstant(right)) {
+        return undefined;
+      }
+      return typeof left === 'number' && typeof right === 'number'
+        ? left + right
+        : String(left) + String(right);
+    }
+
+    if (Node.isArrayLiteralExpression(node)) {
+      return this.evaluateArray(node.getElements(), bindings, visiting);
+    }
+
+    if (Node.isObjectLiteralExpression(node)) {
+      return this.evaluateObject(node, bindings, visiting);
+    }
+
+    // USERS[0], row[1], ROLES['owner']
+    if (Node.isElementAccessExpression(node)) {
+      const argument = node.getArgumentExpression();
+      const key = argument ? this.evaluateNode(argument, bindings, visiting) : undefined;
+      const member = this.getMember(this.evaluateNode(node.getExpression(), bindings, visiting), key);
+      return member ?? this.evaluateLiteralType(node);
+    }
+
+    // user.name, ROLES.owner - or, when the object isn't static, Role.Admin and other references
+    if (Node.isPropertyAccessExpression(node)) {
+      const member = this.getMember(this.evaluateNode(node.getExpression(), bindings, visiting), node.getName());
+      return member ?? this.evaluateReference(node, bindings, visiting);
+    }
+
+    if (Node.isIdentifier(node)) {
+      return this.evaluateReference(node, bindings, visiting);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Evaluates array elements, expanding spreads of static arrays.
+   *
+   * @param elements - The array literal elements
+   * @param bindings - Values of the loop variables and parameters in scope
+   * @param visiting - The declarations currently being evaluated
+   * @returns The array, or undefined if any element is not static
+   */
+  private evaluateArray(elements: Node[], bindings: Bindings, visiting: Set<Node>): StaticValue[] | undefined {
+    const values: StaticValue[] = [];
+
+    for (const element of elements) {
+      if (Node.isSpreadElement(element)) {
+        const spread = this.evaluateNode(element.getExpression(), bindings, visiting);
+        if (!Array.isArray(spread)) return undefined;
+        values.push(...spread);
+        continue;
+      }
+
+      const value = this.evaluateNode(element, bindings, visiting);
+      if (value === undefined) return undefined;
+      values.push(value);
+    }
+
+    return values;
+  }
+
+  /**
+   * Evaluates an object literal with plain, shorthand and spread properties.
+   *
+   * @param node - The object literal
+   * @param bindings - Values of the loop variables and parameters in scope
+   * @param visiting - The declarations currently being evaluated
+   * @returns The object, or undefined if any property is not static
+   */
+  private evaluateObject(node: Node, bindings: Bindings, visiting: Set<Node>): StaticValue | undefined {
+    if (!Node.isObjectLiteralExpression(node)) {
+      return undefined;
+    }
+
+    const value: { [key: string]: StaticValue } = {};
+
+    for (const property of node.getProperties()) {
+      if (Node.isPropertyAssignment(property)) {
+        const nameNode = property.getNameNode();
+        const key = Node.isComputedPropertyName(nameNode)
+          ? this.evaluateNode(nameNode.getExpression(), bindings, visiting)
+          : property.getName().replace(/^['"`]|['"`]$/g, '');
+        const initializer = property.getInitializer();
+        const propertyValue = initializer ? this.evaluateNode(initializer, bindings, visiting) : undefined;
+        if (!this.isConstant(key) || propertyValue === undefined) return undefined;
+        value[String(key)] = propertyValue;
+      } else if (Node.isShorthandPropertyAssignment(property)) {
+        const propertyValue = this.evaluateNode(property.getNameNode(), bindings, visiting);
+        if (propertyValue === undefined) return undefined;
+        value[property.getName()] = propertyValue;
+      } else if (Node.isSpreadAssignment(property)) {
+        const spread = this.evaluateNode(property.getExpression(), bindings, visiting);
+        if (spread === undefined || this.isConstant(spread) || Array.isArray(spread)) return undefined;
+        Object.assign(value, spread);
+      } else {
+        // Methods and accessors
+        return undefined;
+      }
+    }
+
+    return value;
+  }
+
+  /**
+   * Reads a member of a static array or object.
+   *
+   * @param container - The evaluated array or object
+   * @param key - The property name or index
+   * @returns The member, or undefined if it doesn't exist or the container isn't static
+   */
+  private getMember(container: StaticValue | undefined, key: StaticValue | undefined): StaticValue | undefined {
+    if (container === undefined || this.isConstant(container) || !this.isConstant(key)) {
+      return undefined;
+    }
+
+    if (Array.isArray(container)) {
+      return typeof key === 'number' ? container[key] : undefined;
+    }
+
+    return Object.prototype.hasOwnProperty.call(container, String(key)) ? container[String(key)] : undefined;
+  }
+
+  /**
+   * Evaluates an identifier or property access by following its symbol to the declaration.
+   *
+   * 0. Bound declarations (loop variables, parameters): the bound value
+   * 1. `const` variables: evaluate the initializer
+   * 2. Enum members: the compiler's computed member value
+   * 3. Otherwise: the type checker's literal type, if the expression has one
+   *
+   * @param node - The identifier or property access
+   * @param bindings - Values of the loop variables and parameters in scope
+   * @param visiting - The declarations currently being evaluated
+   * @returns The value, or undefined if it is not static
+   */
+  private evaluateReference(node: Node, bindings: Bindings, visiting: Set<Node>): StaticValue | undefined {
+    let symbol = node.getSymbol();
+    if (symbol?.isAlias()) {
+      symbol = symbol.getAliasedSymbol() ?? symbol;
+    }
+
+    for (const declaration of symbol?.getDeclarations() ?? []) {
+      const boundValue = bindings.get(declaration);
+      if (boundValue !== undefined) {
+        return boundValue;
+      }
+
+      if (visiting.has(declaration)) {
+        return undefined;
+      }
+
+      if (Node.isVariableDeclaration(declaration) && this.isConstDeclaration(declaration)) {
+        const initializer = declaration.getInitializer();
+        if (initializer) {
+          visiting.add(declaration);
+          const value = this.evaluateNode(initializer, bindings, visiting);
+          visiting.delete(declaration);
+          if (value !== undefined) {
+            return value;
+          }
+        }
+      }
+
+      if (Node.isEnumMember(declaration)) {
+        const value = declaration.getValue();
+        if (value !== undefined) {
+          return value;
+        }
+      }
+    }
+
+    return this.evaluateLiteralType(node);
+  }
+
+  /**
+   * Reads the value of an expression typed as a single literal (`"admin"`, `42`, `true`).
+   *
+   * @param node - The expression
+   * @returns The literal value, or undefined for non-literal types
+   */
+  private evaluateLiteralType(node: Node): ConstantValue | undefined {
+    const type = node.getType();
+
+    if (type.isStringLiteral() || type.isNumberLiteral()) {
+      const value = type.getLiteralValue();
+      return typeof value === 'string' || typeof value === 'number' ? value : undefined;
+    }
+
+    if (type.isBooleanLiteral()) {
+      return type.getText() === 'true';
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Checks if a variable is declared with `const`.
+   * @param declaration - The variable declaration
+   * @returns True for `const` declarations
+   */
+  private isConstDeclaration(declaration: Node): boolean {
+    const list = declaration.getParent();
+    return Node.isVariableDeclarationList(list) && list.getDeclarationKind() === VariableDeclarationKind.Const;
+  }
+}
@@ -0,0 +1,300 @@
+import { Node, SourceFile, SyntaxKind, VariableDeclarationKind } from 'ts-morph';
+import * as path from 'path';
+import { ConstantEvaluator } from './constant-evaluator';
+import { SOURCE_EXTENSIONS } from './module-resolver';
+
+/** Modules whose functions take file paths */
+const FS_MODULES = ['fs', 'node:fs', 'fs/promises', 'node:fs/promises', 'fs-extra'];
+
+/** Modules whose functions build file paths */
+const PATH_MODULES = ['path', 'node:path'];
+
+/** The `path` functions evaluated statically */
+const PATH_FUNCTIONS = ['join', 'resolve', 'dirname'];
+
+/**
+ * A place in the code that loads a data file.
+ */
+export interface DataFileReference {
+  /** The absolute path of the referenced file (or directory) */
+  filePath: string;
+  /** The code referencing it: an import, a file system call, a path or an option */
+  node: Node;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * DataFileAnalyzer finds the non-code files (JSON fixtures, CSV, storage state, ...)
+ * a source file loads, so a changed data file can be traced to the tests using it.
+ *
+ * Recognized references:
+ * - Imports and `require()` of relative non-code paths (`import users from './data/users.json'`)
+ * - Static paths given to `fs` functions (`fs.readFileSync('fixtures/x.csv')`, or a directory to `fs.readdirSync`)
+ * - Static `path.join` / `path.resolve` calls building a file path (`path.join(__dirname, 'fixtures/x.csv')`)
+ * - The framework's file options and methods (`test.use({ storageState: 'auth.json' })`)
+ *
+ * Paths are evaluated statically from string constants, `__dirname`, `__filename`,
+ * `process.cwd()` and nested `path` calls. Relative paths outside imports are resolved
+ * against the repo root, where the test runner is started.
+ */
+export class DataFileAnalyzer {
+  private repoPath: string;
+  private fileOptions: string[];
+  private constantEvaluator = new ConstantEvaluator();
+
+  /**
+   * @param repoPath - The repository root
+   * @param fileOptions - Option and method names taking a data file path (e.g. `storageState`)
+   */
+  constructor(repoPath: string, fileOptions: string[]) {
+    this.repoPath = repoPath;
+    this.fileOptions = fileOptions;
+  }
+
+  /**
+   * Finds every data file reference of a source file.
+   *
+   * @param sourceFile - The file to search
+   * @returns The references, in source order
+   */
+  findReferences(sourceFile: SourceFile): DataFileReference[] {
+    const references: DataFileReference[] = [];
+    const addReference = (node: Node, filePath: string | undefined) => {
+      if (filePath && !this.isCodePath(filePath) && path.resolve(filePath) !== path.resolve(this.repoPath)) {
+        references.push({
+          filePath: path.resolve(filePath),
+          node,
+          startLine: node.getStartLineNumber(),
+          endLine: node.getEndLineNumber(),
+        });
+      }
+    };
+    const fileDirectory = path.dirname(sourceFile.getFilePath());
+
+    for (const importDecl of sourceFile.getImportDeclarations()) {
+      addReference(importDecl, this.resolveRelativeSpecifier(importDecl.getModuleSpecifierValue(), fileDirectory));
+    }
+
+    for (const callExpr of sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+      const expression = callExpr.getExpression();
+      const firstArg = callExpr.getArguments()[0];
+
+      // require('./users.json') and import('./users.json')
+      const isRequire = Node.isIdentifier(expression) && expression.getText() === 'require';
+      if (isRequire || expression.getKind() === SyntaxKind.ImportKeyword) {
+        if (firstArg && (Node.isStringLiteral(firstArg) || Node.isNoSubstitutionTemplateLiteral(firstArg))) {
+          addReference(callExpr, this.resolveRelativeSpecifier(firstArg.getLiteralValue(), fileDirectory));
+        }
+        continue;
+      }
+
+      // path.join(__dirname, 'fixtures/x.csv'), wherever the path is used. Directories
+      // (`const DATA_DIR = path.join(...)`) only count when passed to fs (readdirSync)
+      if (this.isPathCall(callExpr)) {
+        const filePath = this.evaluatePath(callExpr, new Set());
+        if (filePath && path.extname(filePath) !== '') {
+          addReference(callExpr, filePath);
+        }
+        continue;
+      }
+
+      // fs.readFileSync('fixtures/x.csv') and page.setInputFiles('files/a.pdf')
+      const isFileMethod = Node.isPropertyAccessExpression(expression) && this.fileOptions.includes(expression.getName());
+      if (firstArg && (this.getCalleeModule(expression, FS_MODULES) || isFileMethod)) {
+        const paths = Node.isArrayLiteralExpression(firstArg) ? firstArg.getElements() : [firstArg];
+        for (const pathArg of paths) {
+          const filePath = this.evaluatePath(pathArg, new Set());
+          // File paths built by path calls are referenced by the call itself
+          if (!(this.isPathCall(pathArg) && filePath && path.extname(filePath) !== '')) {
+            addReference(callExpr, filePath);
+          }
+        }
+      }
+    }
+
+    // test.use({ storageState: 'auth.json' })
+    for (const property of sourceFile.getDescendantsOfKind(SyntaxKind.PropertyAssignment)) {
+      const initializer = property.getInitializer();
+      if (initializer && this.fileOptions.includes(property.getName().replace(/^['"`]|['"`]$/g, ''))) {
+        addReference(property, this.evaluatePath(initializer, new Set()));
+      }
+    }
+
+    return references.sort((a, b) => a.node.getStart() - b.node.getStart());
+  }
+
+  /**
+   * Checks if a reference points at a file: the file itself, or a directory containing it
+   * (`fs.readdirSync(path.join(__dirname, 'fixtures'))`).
+   *
+   * @param reference - The reference
+   * @param filePath - The absolute path of the file
+   * @returns True if the reference loads the file
+   */
+  referencesFile(reference: DataFileReference, filePath: string): boolean {
+    const normalizedPath = path.resolve(filePath);
+    if (reference.filePath === normalizedPath) {
+      return true;
+    }
+
+    const isDirectory = path.extname(reference.filePath) === '';
+    return isDirectory && normalizedPath.startsWith(reference.filePath + path.sep);
+  }
+
+  /**
+   * Resolves a relative module specifier of a non-code file.
+   *
+   * @param specifier - The module specifier
+   * @param fileDirectory - The directory of the importing file
+   * @returns The absolute path, or undefined for packages and code modules
+   */
+  private resolveRelativeSpecifier(specifier: string, fileDirectory: string): string | undefined {
+    if (!specifier.startsWith('.') || path.extname(specifier) === '') {
+      return undefined;
+    }
+    return path.resolve(fileDirectory, specifier);
+  }
+
+  /**
+   * Evaluates an expression to an absolute file path.
+   *
+   * @param node - The expression
+   * @param visiting - Declarations being evaluated (stops on cycles)
+   * @returns The absolute path, or undefined if it isn't static
+   */
+  private evaluatePath(node: Node, visiting: Set<Node>): string | undefined {
+    if (Node.isIdentifier(node)) {
+      if (node.getText() === '__dirname') return path.dirname(node.getSourceFile().getFilePath());
+      if (node.getText() === '__filename') return node.getSourceFile().getFilePath();
+    }
+
+    if (Node.isParenthesizedExpression(node) || Node.isAsExpression(node)) {
+      return this.evaluatePath(node.getExpression(), visiting);
+    }
+
+    if (Node.isCallExpression(node)) {
+      if (node.getExpression().getText() === 'process.cwd') {
+        return this.repoPath;
+      }
+      return this.isPathCall(node) ? this.evaluatePathCall(node, visiting) : undefined;
+    }
+
+    const value = this.constantEvaluator.evaluate(node);
+    if (typeof value === 'string') {
+      return path.resolve(this.repoPath, value);
+    }
+
+    // const DATA_DIR = path.join(__dirname, 'data'), possibly imported from a helper
+    if (Node.isIdentifier(node)) {
+      const symbol = node.getSymbol();
+      const declaration = (symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol)?.getDeclarations()[0];
+      if (
+        Node.isVariableDeclaration(declaration) &&
+        declaration.getVariableStatement()?.getDeclarationKind() === VariableDeclarationKind.Const &&
+        !visiting.has(declaration)
+      ) {
+        const initializer = declaration.getInitializer();
+        visiting.add(declaration);
+        return initializer ? this.evaluatePath(initializer, visiting) : undefined;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Evaluates a `path.join`, `path.resolve` or `path.dirname` call.
+   *
+   * @param callExpr - The call
+   * @param visiting - Declarations being evaluated
+   * @returns The absolute path, or undefined if an argument isn't static
+   */
+  private evaluatePathCall(callExpr: Node, visiting: Set<Node>): string | undefined {
+    if (!Node.isCallExpression(callExpr)) {
+      return undefined;
+    }
+
+    // Path segments stay relative until joined: path.join('fixtures', 'x.csv')
+    const segments: string[] = [];
+    for (const arg of callExpr.getArguments()) {
+      const value = this.constantEvaluator.evaluate(arg);
+      const segment = typeof value === 'string' ? value : this.evaluatePath(arg, visiting);
+      if (segment === undefined) {
+        return undefined;
+      }
+      segments.push(segment);
+    }
+
+    const expression = callExpr.getExpression();
+    const functionName = Node.isPropertyAccessExpression(expression) ? expression.getName() : expression.getText();
+    if (functionName === 'dirname') {
+      return segments[0] !== undefined ? path.dirname(path.resolve(this.repoPath, segments[0])) : undefined;
+    }
+    return functionName === 'join'
+      ? path.resolve(this.repoPath, path.join(...segments))
+      : path.resolve(this.repoPath, ...segments);
+  }
+
+  /**
+   * Checks if a call is a `path.join`, `path.resolve` or `path.dirname` call.
+   * @param callExpr - The call
+   * @returns True for calls of those `path` functions
+   */
+  private isPathCall(callExpr: Node): boolean {
+    if (!Node.isCallExpression(callExpr)) {
+      return false;
+    }
+
+    const expression = callExpr.getExpression();
+    const functionName = Node.isPropertyAccessExpression(expression) ? expression.getName() : expression.getText();
+    return PATH_FUNCTIONS.includes(functionName) && this.getCalleeModule(expression, PATH_MODULES) !== undefined;
+  }
+
+  /**
+   * Returns the module a callee comes from, when it is one of the given modules:
+   * `fs.readFileSync` with `import * as fs from 'fs'`, `readFileSync` imported by name,
+   * or either bound by `require('fs')`.
+   *
+   * @param callee - The callee expression
+   * @param modules - The module names to look for
+   * @returns The module name, or undefined
+   */
+  private getCalleeModule(callee: Node, modules: string[]): string | undefined {
+    let root: Node = callee;
+    while (Node.isPropertyAccessExpression(root)) {
+      root = root.getExpression();
+    }
+    if (!Node.isIdentifier(root)) {
+      return undefined;
+    }
+
+    for (const declaration of root.getSymbol()?.getDeclarations() ?? []) {
+      const importDecl = declaration.getFirstAncestor(Node.isImportDeclaration);
+      const variable = Node.isVariableDeclaration(declaration)
+        ? declaration
+        : declaration.getFirstAncestor(Node.isVariableDeclaration);
+      const initializer = variable?.getInitializer();
+
+      const moduleName = importDecl
+        ? importDecl.getModuleSpecifierValue()
+        : Node.isCallExpression(initializer) && initializer.getExpression().getText() === 'require'
+          ? initializer.getArguments()[0]?.getText().slice(1, -1)
+          : undefined;
+      if (moduleName && modules.includes(moduleName)) {
+        return moduleName;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Checks if a path names a source file, which module resolution already covers.
+   * @param filePath - The path
+   * @returns True for TypeScript and JavaScript files
+   */
+  private isCodePath(filePath: string): boolean {
+    return SOURCE_EXTENSIONS.includes(path.extname(filePath).slice(1));
+  }
+}
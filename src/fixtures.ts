@@ -0,0 +1,239 @@
+import { Node, SourceFile, SyntaxKind } from 'ts-morph';
+import { createFrameworkAdapter, FrameworkAdapter } from './frameworks';
+import { TestCalleeResolver } from './test-callee-resolver';
+
+/**
+ * A fixture defined in a `test.extend({...})` call.
+ */
+export interface FixtureDefinition {
+  /** The fixture name (the property key) */
+  name: string;
+  /** The property node defining the fixture */
+  node: Node;
+  startLine: number;
+  endLine: number;
+  /**
+   * The fixtures this one destructures from its first parameter, e.g. ['page'] for
+   * `loginPage: async ({ page }, use) => ...`. Null if the parameter isn't destructured,
+   * in which case it may use any fixture.
+   */
+  dependencies: string[] | null;
+}
+
+/**
+ * FixtureAnalyzer understands Playwright fixtures built with `base.extend({...})`.
+ *
+ * Every spec imports the extended `test`, so treating the whole `extend` call as one
+ * declaration would select the entire suite for any fixture change. Instead, fixtures
+ * are tracked by name: a test is affected when it destructures a changed fixture, or a
+ * fixture that (transitively) depends on one.
+ */
+export class FixtureAnalyzer {
+  private framework: FrameworkAdapter;
+  private calleeResolver: TestCalleeResolver;
+
+  /**
+   * @param framework - The test framework whose test function fixtures are added to
+   */
+  constructor(framework: FrameworkAdapter = createFrameworkAdapter('playwright')) {
+    this.framework = framework;
+    this.calleeResolver = new TestCalleeResolver(framework);
+  }
+
+  /**
+   * Finds every fixture defined in `<test>.extend({...})` calls in a file, where `<test>`
+   * is the framework's test function or a wrapper made from it (see TestCalleeResolver).
+   * Other `extend` calls, such as custom matchers in `expect.extend({...})`, define no fixtures.
+   *
+   * Supported definition forms:
+   * - `name: async ({ page }, use) => { ... }`
+   * - `name: [async ({ page }, use) => { ... }, { scope: 'worker' }]`
+   * - `async name({ page }, use) { ... }`
+   * - `name: 'value'` / `name: ['value', { option: true }]` (option fixtures)
+   *
+   * @param sourceFile - The file to search
+   * @returns The fixture definitions
+   */
+  findFixtureDefinitions(sourceFile: SourceFile): FixtureDefinition[] {
+    const definitions: FixtureDefinition[] = [];
+
+    for (const callExpr of sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+      const expression = callExpr.getExpression();
+      if (
+        !Node.isPropertyAccessExpression(expression) ||
+        expression.getName() !== 'extend' ||
+        !this.isTestFunction(expression.getExpression())
+      ) {
+        continue;
+      }
+
+      const fixturesArg = callExpr.getArguments()[0];
+      if (!fixturesArg || !Node.isObjectLiteralExpression(fixturesArg)) {
+        continue;
+      }
+
+      for (const property of fixturesArg.getProperties()) {
+        if (
+          !Node.isPropertyAssignment(property) &&
+          !Node.isMethodDeclaration(property) &&
+          !Node.isShorthandPropertyAssignment(property)
+        ) {
+          continue;
+        }
+
+        definitions.push({
+          name: property.getName().replace(/^['"`]|['"`]$/g, ''),
+          node: property,
+          startLine: property.getStartLineNumber(),
+          endLine: property.getEndLineNumber(),
+          dependencies: this.getFixtureDependencies(property),
+        });
+      }
+    }
+
+    return definitions;
+  }
+
+  /**
+   * Returns the fixtures a test (or hook) uses, from the destructured first parameter
+   * of its callback: `test('name', async ({ page, loginPage }) => ...)` uses page and loginPage.
+   *
+   * @param callExpr - The test call expression
+   * @returns The fixture names, or null if the parameter isn't destructured (may use any fixture)
+   */
+  getUsedFixtures(callExpr: Node): string[] | null {
+    if (!Node.isCallExpression(callExpr)) {
+      return [];
+    }
+
+    // The callback is the last function argument: test(name, fn) or test(name, details, fn)
+    const callback = [...callExpr.getArguments()]
+      .reverse()
+      .find(arg => Node.isArrowFunction(arg) || Node.isFunctionExpression(arg));
+
+    return callback ? this.getDestructuredNames(callback) : [];
+  }
+
+  /**
+   * Expands a set of changed fixtures with every fixture that depends on them,
+   * directly or transitively (`adminPage` depends on `loginPage` depends on `page`).
+   *
+   * @param changedFixtures - The changed fixture names (extended in place)
+   * @param definitions - All known fixture definitions
+   */
+  propagate(changedFixtures: Set<string>, definitions: FixtureDefinition[]): void {
+    let hasChanges = true;
+
+    while (hasChanges) {
+      hasChanges = false;
+
+      for (const definition of definitions) {
+        if (changedFixtures.has(definition.name)) continue;
+
+        const dependsOnChanged = definition.dependencies === null
+          ? changedFixtures.size > 0
+          : definition.dependencies.some(dependency => changedFixtures.has(dependency));
+
+        if (dependsOnChanged) {
+          changedFixtures.add(definition.name);
+          hasChanges = true;
+        }
+      }
+    }
+  }
+
+  /**
+   * Checks if a test (or hook) uses any of the given fixtures.
+   *
+   * @param callExpr - The test call expression
+   * @param fixtures - The fixture names to look for
+   * @returns True if the test destructures one of them (or doesn't destructure at all)
+   */
+  usesAnyFixture(callExpr: Node, fixtures: Set<string>): boolean {
+    if (fixtures.size === 0) {
+      return false;
+    }
+
+    const usedFixtures = this.getUsedFixtures(callExpr);
+    return usedFixtures === null || usedFixtures.some(fixture => fixtures.has(fixture));
+  }
+
+  /**
+   * Checks if an expression evaluates to the framework's test function: `test`, a wrapper
+   * of it (`base` from `import { test as base }`), or an earlier `extend` of either.
+   *
+   * @param expression - The expression `extend` is called on
+   * @returns True if `extend` adds fixtures to a test function
+   */
+  private isTestFunction(expression: Node): boolean {
+    // base.extend({...}).extend({...}) extends what the inner call returns
+    while (Node.isCallExpression(expression)) {
+      const callee = expression.getExpression();
+      if (!Node.isPropertyAccessExpression(callee) || callee.getName() !== 'extend') {
+        return false;
+      }
+      expression = callee.getExpression();
+    }
+
+    const kind = this.framework.classifyCall(expression.getText().split('.'), true)
+      ?? this.framework.classifyCall(this.calleeResolver.resolve(expression) ?? [], true);
+    return kind === 'test';
+  }
+
+  /**
+   * Reads the fixture dependencies from a fixture property's function.
+   *
+   * @param property - The fixture property
+   * @returns The destructured names ([] for option fixtures), or null if not destructured
+   */
+  private getFixtureDependencies(property: Node): string[] | null {
+    if (Node.isMethodDeclaration(property)) {
+      return this.getDestructuredNames(property);
+    }
+
+    if (!Node.isPropertyAssignment(property)) {
+      return [];
+    }
+
+    let initializer = property.getInitializer();
+    // Tuple form: [fixtureFn, { scope: 'worker' }]
+    if (initializer && Node.isArrayLiteralExpression(initializer)) {
+      initializer = initializer.getElements()[0];
+    }
+
+    if (initializer && (Node.isArrowFunction(initializer) || Node.isFunctionExpression(initializer))) {
+      return this.getDestructuredNames(initializer);
+    }
+
+    // Option fixture (plain value) - depends on nothing
+    return [];
+  }
+
+  /**
+   * Reads the property names destructured from a function's first parameter.
+   * `({ page, user: currentUser }) => ...` yields ['page', 'user'].
+   *
+   * @param fn - The function-like node
+   * @returns The names, [] without parameters, or null if the parameter isn't destructured
+   */
+  private getDestructuredNames(fn: Node): string[] | null {
+    if (!Node.isArrowFunction(fn) && !Node.isFunctionExpression(fn) && !Node.isMethodDeclaration(fn)) {
+      return [];
+    }
+
+    const firstParam = fn.getParameters()[0];
+    if (!firstParam) {
+      return [];
+    }
+
+    const nameNode = firstParam.getNameNode();
+    // `(fixtures) => ...` or `({ page, ...rest }) => ...` may use any fixture
+    if (!Node.isObjectBindingPattern(nameNode) || nameNode.getElements().some(e => e.getDotDotDotToken())) {
+      return null;
+    }
+
+    return nameNode.getElements().map(element =>
+      element.getPropertyNameNode()?.getText() ?? element.getName()
+    );
+  }
+}
@@ -0,0 +1,450 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Minimatch } from 'minimatch';
+import { SOURCE_EXTENSIONS } from './module-resolver';
+import { TriggerRule } from './types';
+
+/** The test frameworks with a built-in adapter */
+export const FRAMEWORK_NAMES = ['playwright', 'jest', 'vitest', 'mocha', 'node'] as const;
+
+export type FrameworkName = typeof FRAMEWORK_NAMES[number];
+
+/** The kinds of test-framework calls the test tree distinguishes */
+export type TestCallKind = 'describe' | 'test' | 'hook' | 'config';
+
+/**
+ * Options shared by the built-in adapters.
+ */
+export interface FrameworkOptions {
+  /**
+   * Extra callee names treated as the framework's test function (`smoke`, `apiTest`),
+   * for wrappers that can't be resolved back to the framework by symbol.
+   */
+  extraTestCallees?: string[];
+  /** Globs of the test files (relative to the repo root), replacing the framework's defaults */
+  testMatch?: string[];
+}
+
+/**
+ * FrameworkAdapter describes everything framework-specific about test selection:
+ * which files hold tests, which calls declare tests, how the runner names a test,
+ * and how to tell the runner to run only the selected tests.
+ */
+export interface FrameworkAdapter {
+  /** The framework name, as accepted by --framework */
+  readonly name: FrameworkName;
+  /** Glob patterns (relative to the repo root) matching every test file, for --all */
+  readonly testFileGlobs: string[];
+  /** The modules the framework's test API is imported from */
+  readonly modules: string[];
+  /** The export a default import of a framework module stands for, if it has one */
+  readonly defaultExportName?: string;
+  /** Trigger rules for files that affect every test (runner config, lockfiles), after the project's own */
+  readonly defaultTriggers: TriggerRule[];
+  /** Option and method names whose value or first argument is a data file path */
+  readonly dataFileOptions: string[];
+  /** Extra callee names treated as the framework's test function (`--test-callees`) */
+  readonly extraTestCallees: string[];
+  /** The options the adapter was created with, to recreate it in worker threads */
+  readonly options: FrameworkOptions;
+
+  /**
+   * Checks if a file is a test file.
+   * @param filePath - The file path, relative to the repo root
+   * @returns True if the runner would load the file as a test file
+   */
+  isTestFile(filePath: string): boolean;
+
+  /**
+   * Classifies a call by its callee path.
+   * The root may also be one of the extra test callee names.
+   *
+   * @param calleePath - The callee split on dots, e.g. ['test', 'describe', 'serial']
+   * @param hasTitleAndCallback - Whether the call has a title followed by a callback
+   * @returns The call kind, or null for ordinary calls (`test.step`, `expect`, ...)
+   */
+  classifyCall(calleePath: string[], hasTitleAndCallback: boolean): TestCallKind | null;
+
+  /**
+   * Composes the name the runner's title filter matches a test against.
+   * @param titlePath - The describe titles followed by the test title
+   * @returns The composed title
+   */
+  composeTitle(titlePath: string[]): string;
+
+  /**
+   * Builds the runner's title filter from composed titles.
+   * @param titles - The composed titles of the selected tests
+   * @returns A regex matching exactly those titles ('' for none)
+   */
+  buildTitlePattern(titles: string[]): string;
+
+  /**
+   * Builds the command line that runs the given files, filtered by a title pattern.
+   * @param files - The test files to run, relative to the repo root
+   * @param titlePattern - The title filter ('' runs every test in the files)
+   * @returns The command and its arguments
+   */
+  getRunnerArgs(files: string[], titlePattern: string): string[];
+}
+
+/**
+ * The names a framework declares tests with. Callees are dotted paths: "test.describe",
+ * "beforeEach", "test.use".
+ */
+interface FrameworkVocabulary {
+  /** Callees that declare a test: `test`, `it`, `xit` */
+  testCallees: string[];
+  /** Callees that declare a describe block: `test.describe`, `describe`, `context` */
+  suiteCallees: string[];
+  /** Hook callees: `test.beforeEach`, `afterAll`, `before` */
+  hookCallees: string[];
+  /** Calls that configure the tests of their scope: `test.use`, `test.describe.configure` */
+  configCallees: string[];
+  /** Modifiers allowed on a test callee: test.only, it.skip, ... */
+  testModifiers: string[];
+  /** Modifiers allowed on a suite callee: test.describe.serial.only, describe.skip, ... */
+  suiteModifiers: string[];
+  /** Whether a test modifier called without a test (`test.skip()`) configures its scope */
+  modifiersConfigureScope: boolean;
+}
+
+/** Regex alternation of the source extensions: (ts|tsx|...|cjs) */
+const EXT = `(${SOURCE_EXTENSIONS.join('|')})`;
+
+/** Glob brace list of the source extensions: {ts,tsx,...,cjs} */
+const EXT_GLOB = `{${SOURCE_EXTENSIONS.join(',')}}`;
+
+/** Dependency changes affect every test, whatever the framework */
+const DEPENDENCY_TRIGGERS: TriggerRule[] = [
+  { name: 'package-manifest', files: ['package.json'], action: 'run-all' },
+  { name: 'lockfile', files: ['package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb'], action: 'run-all' },
+];
+
+/**
+ * Escapes special regex characters in a string.
+ * This ensures test names with special characters like () [] ? + * don't break the regex pattern.
+ *
+ * @param str - The string to escape
+ * @returns The escaped string safe for use in regex
+ */
+function escapeRegExp(str: string): string {
+  // Escape all regex special characters: \ ^ $ . | ? * + ( ) [ ] { }
+  return str.replace(/[\\^$.|?*+()\[\]{}]/g, '\\$&');
+}
+
+/**
+ * Shared adapter logic: call classification from a vocabulary, titles joined by
+ * spaces (how Playwright, Jest, Vitest, Mocha and node:test all compose full titles)
+ * and an escaped alternation as the title filter.
+ */
+abstract class BaseFrameworkAdapter implements FrameworkAdapter {
+  abstract readonly name: FrameworkName;
+  abstract readonly modules: string[];
+  readonly defaultExportName?: string;
+  /** The framework's default test file globs, used for --all */
+  protected abstract readonly defaultTestFileGlobs: string[];
+  /** The framework's default test file patterns, matched against repo-relative paths */
+  protected abstract readonly testFilePatterns: RegExp[];
+  protected abstract readonly vocabulary: FrameworkVocabulary;
+  readonly defaultTriggers: TriggerRule[] = DEPENDENCY_TRIGGERS;
+  readonly dataFileOptions: string[] = [];
+  readonly extraTestCallees: string[];
+  readonly options: FrameworkOptions;
+  private testMatch: string[] | undefined;
+  private testMatchers: Minimatch[] | undefined;
+
+  /**
+   * @param options - Adapter options
+   */
+  constructor(options: FrameworkOptions = {}) {
+    this.options = options;
+    this.extraTestCallees = options.extraTestCallees ?? [];
+    this.testMatch = options.testMatch;
+    this.testMatchers = options.testMatch?.map(glob => new Minimatch(glob, { dot: true }));
+  }
+
+  get testFileGlobs(): string[] {
+    return this.testMatch ?? this.defaultTestFileGlobs;
+  }
+
+  isTestFile(filePath: string): boolean {
+    const normalizedPath = filePath.split(path.sep).join('/');
+    if (this.testMatchers) {
+      return this.testMatchers.some(matcher => matcher.match(normalizedPath));
+    }
+    return this.testFilePatterns.some(pattern => pattern.test(normalizedPath));
+  }
+
+  /**
+   * Classifies a call against the framework's vocabulary.
+   *
+   * - hook / config: the callee is listed as such (`test.beforeEach`, `test.use`)
+   * - describe: a suite callee followed by suite modifiers (`test.describe.serial.only`)
+   * - test: a test callee followed by test modifiers, with a title and a callback
+   * - config: a test modifier without a test (`test.skip()`), if the framework allows it
+   */
+  classifyCall(calleePath: string[], hasTitleAndCallback: boolean): TestCallKind | null {
+    const { vocabulary } = this;
+    if (calleePath[0] && this.extraTestCallees.includes(calleePath[0])) {
+      // smoke.describe(...) is classified as test.describe(...)
+      calleePath = [vocabulary.testCallees[0] ?? calleePath[0], ...calleePath.slice(1)];
+    }
+    const callee = calleePath.join('.');
+
+    if (vocabulary.hookCallees.includes(callee)) {
+      return 'hook';
+    }
+
+    if (vocabulary.configCallees.includes(callee)) {
+      return 'config';
+    }
+
+    const suiteCallee = vocabulary.suiteCallees.find(name => callee === name || callee.startsWith(`${name}.`));
+    if (suiteCallee) {
+      const modifiers = calleePath.slice(suiteCallee.split('.').length);
+      return modifiers.every(modifier => vocabulary.suiteModifiers.includes(modifier)) ? 'describe' : null;
+    }
+
+    const [root, ...modifiers] = calleePath;
+    if (!root || !vocabulary.testCallees.includes(root)) {
+      return null;
+    }
+
+    if (!modifiers.every(modifier => vocabulary.testModifiers.includes(modifier))) {
+      return null;
+    }
+
+    if (hasTitleAndCallback) {
+      return 'test';
+    }
+
+    return modifiers.length > 0 && vocabulary.modifiersConfigureScope ? 'config' : null;
+  }
+
+  composeTitle(titlePath: string[]): string {
+    return titlePath.join(' ');
+  }
+
+  buildTitlePattern(titles: string[]): string {
+    return titles.map(escapeRegExp).join('|');
+  }
+
+  abstract getRunnerArgs(files: string[], titlePattern: string): string[];
+}
+
+/**
+ * Playwright Test: `test`, `test.describe`, `test.beforeEach`, `test.use`, ...
+ * The title filter is `--grep`, matched against "<file> <describe titles> <test title>".
+ */
+class PlaywrightAdapter extends BaseFrameworkAdapter {
+  readonly name = 'playwright';
+  protected readonly defaultTestFileGlobs = [`**/*.spec.${EXT_GLOB}`, `**/*.test.${EXT_GLOB}`, `tests/**/*.setup.${EXT_GLOB}`];
+  readonly modules = ['@playwright/test'];
+  readonly defaultExportName = 'test';
+  protected readonly testFilePatterns = [
+    new RegExp(`\\.(spec|test)\\.${EXT}$`),
+    new RegExp(`^tests/(.+/)?[^/]+\\.setup\\.${EXT}$`),
+  ];
+  protected readonly vocabulary: FrameworkVocabulary = {
+    testCallees: ['test'],
+    suiteCallees: ['test.describe'],
+    hookCallees: ['test.beforeEach', 'test.beforeAll', 'test.afterEach', 'test.afterAll'],
+    configCallees: ['test.use', 'test.describe.configure'],
+    testModifiers: ['only', 'skip', 'fixme', 'fail', 'slow'],
+    suiteModifiers: ['only', 'skip', 'fixme', 'serial', 'parallel'],
+    modifiersConfigureScope: true,
+  };
+  readonly defaultTriggers: TriggerRule[] = [
+    { name: 'playwright-config', files: [`**/playwright.config.${EXT_GLOB}`], action: 'run-all' },
+    {
+      name: 'global-setup',
+      files: [`**/global-setup.${EXT_GLOB}`, `**/global-teardown.${EXT_GLOB}`],
+      action: 'run-all',
+    },
+    { name: 'env', files: ['**/.env', '**/.env.*'], action: 'run-all' },
+    ...DEPENDENCY_TRIGGERS,
+  ];
+  readonly dataFileOptions = ['storageState', 'routeFromHAR', 'setInputFiles'];
+
+  getRunnerArgs(files: string[], titlePattern: string): string[] {
+    return ['npx', 'playwright', 'test', ...files, ...(titlePattern ? ['--grep', titlePattern] : [])];
+  }
+}
+
+/**
+ * Jest: `test`/`it` and `describe` globals with bare hooks, plus the `x`/`f` prefixed aliases.
+ * The title filter is `--testNamePattern`, matched against the describe and test titles.
+ */
+class JestAdapter extends BaseFrameworkAdapter {
+  readonly name = 'jest';
+  protected readonly defaultTestFileGlobs = [`**/__tests__/**/*.${EXT_GLOB}`, `**/*.spec.${EXT_GLOB}`, `**/*.test.${EXT_GLOB}`];
+  readonly modules = ['@jest/globals'];
+  protected readonly testFilePatterns = [new RegExp(`(^|/)__tests__/.*\\.${EXT}$`), new RegExp(`\\.(spec|test)\\.${EXT}$`)];
+  protected readonly vocabulary: FrameworkVocabulary = {
+    testCallees: ['test', 'it', 'xtest', 'xit', 'fit'],
+    suiteCallees: ['describe', 'xdescribe', 'fdescribe'],
+    hookCallees: ['beforeEach', 'beforeAll', 'afterEach', 'afterAll'],
+    configCallees: [],
+    testModifiers: ['only', 'skip', 'concurrent', 'failing'],
+    suiteModifiers: ['only', 'skip'],
+    modifiersConfigureScope: false,
+  };
+  readonly defaultTriggers: TriggerRule[] = [
+    { name: 'jest-config', files: [`**/jest.config.${EXT_GLOB}`, '**/jest.config.json'], action: 'run-all' },
+    ...DEPENDENCY_TRIGGERS,
+  ];
+
+  getRunnerArgs(files: string[], titlePattern: string): string[] {
+    return ['npx', 'jest', ...files, ...(titlePattern ? ['--testNamePattern', titlePattern] : [])];
+  }
+}
+
+/**
+ * Vitest: Jest's globals (imported from 'vitest') plus `suite` and Vitest's modifiers.
+ * The title filter is `--testNamePattern`, like Jest's.
+ */
+class VitestAdapter extends BaseFrameworkAdapter {
+  readonly name = 'vitest';
+  protected readonly defaultTestFileGlobs = [`**/*.spec.${EXT_GLOB}`, `**/*.test.${EXT_GLOB}`];
+  readonly modules = ['vitest'];
+  protected readonly testFilePatterns = [new RegExp(`\\.(spec|test)\\.${EXT}$`)];
+  protected readonly vocabulary: FrameworkVocabulary = {
+    testCallees: ['test', 'it'],
+    suiteCallees: ['describe', 'suite'],
+    hookCallees: ['beforeEach', 'beforeAll', 'afterEach', 'afterAll'],
+    configCallees: [],
+    testModifiers: ['only', 'skip', 'concurrent', 'sequential', 'fails'],
+    suiteModifiers: ['only', 'skip', 'concurrent', 'sequential', 'shuffle'],
+    modifiersConfigureScope: false,
+  };
+  readonly defaultTriggers: TriggerRule[] = [
+    { name: 'vitest-config', files: [`**/vitest.config.${EXT_GLOB}`, `**/vite.config.${EXT_GLOB}`], action: 'run-all' },
+    ...DEPENDENCY_TRIGGERS,
+  ];
+
+  getRunnerArgs(files: string[], titlePattern: string): string[] {
+    return ['npx', 'vitest', 'run', ...files, ...(titlePattern ? ['--testNamePattern', titlePattern] : [])];
+  }
+}
+
+/**
+ * Mocha (BDD interface): `it`/`specify`, `describe`/`context` and `before`/`after` hooks.
+ * Test files are the spec files and, as in Mocha's default spec, the files directly in test/.
+ */
+class MochaAdapter extends BaseFrameworkAdapter {
+  readonly name = 'mocha';
+  protected readonly defaultTestFileGlobs = [`test/*.${EXT_GLOB}`, `**/*.spec.${EXT_GLOB}`, `**/*.test.${EXT_GLOB}`];
+  readonly modules = ['mocha'];
+  protected readonly testFilePatterns = [new RegExp(`^test/[^/]+\\.${EXT}$`), new RegExp(`\\.(spec|test)\\.${EXT}$`)];
+  protected readonly vocabulary: FrameworkVocabulary = {
+    testCallees: ['it', 'specify', 'xit', 'xspecify'],
+    suiteCallees: ['describe', 'context', 'xdescribe', 'xcontext'],
+    hookCallees: ['before', 'after', 'beforeEach', 'afterEach'],
+    configCallees: [],
+    testModifiers: ['only', 'skip'],
+    suiteModifiers: ['only', 'skip'],
+    modifiersConfigureScope: false,
+  };
+  readonly defaultTriggers: TriggerRule[] = [
+    { name: 'mocha-config', files: ['**/.mocharc', '**/.mocharc.*'], action: 'run-all' },
+    ...DEPENDENCY_TRIGGERS,
+  ];
+
+  getRunnerArgs(files: string[], titlePattern: string): string[] {
+    return ['npx', 'mocha', ...files, ...(titlePattern ? ['--grep', titlePattern] : [])];
+  }
+}
+
+/**
+ * node:test: `test`/`it`, `describe`/`suite` and `before`/`after` hooks.
+ * Test files follow the `node --test` default patterns.
+ */
+class NodeTestAdapter extends BaseFrameworkAdapter {
+  readonly name = 'node';
+  protected readonly defaultTestFileGlobs = [
+    `**/*.test.${EXT_GLOB}`,
+    `**/*-test.${EXT_GLOB}`,
+    `**/*_test.${EXT_GLOB}`,
+    `**/test-*.${EXT_GLOB}`,
+    `**/test.${EXT_GLOB}`,
+    `**/test/**/*.${EXT_GLOB}`,
+  ];
+  readonly modules = ['node:test', 'test'];
+  readonly defaultExportName = 'test';
+  protected readonly testFilePatterns = [
+    new RegExp(`[.\\-_]test\\.${EXT}$`),
+    new RegExp(`(^|/)test(-[^/]*)?\\.${EXT}$`),
+    new RegExp(`(^|/)test/.*\\.${EXT}$`),
+  ];
+  protected readonly vocabulary: FrameworkVocabulary = {
+    testCallees: ['test', 'it'],
+    suiteCallees: ['describe', 'suite'],
+    hookCallees: ['before', 'after', 'beforeEach', 'afterEach'],
+    configCallees: [],
+    testModifiers: ['only', 'skip'],
+    suiteModifiers: ['only', 'skip'],
+    modifiersConfigureScope: false,
+  };
+
+  getRunnerArgs(files: string[], titlePattern: string): string[] {
+    return ['node', '--test', ...(titlePattern ? ['--test-name-pattern', titlePattern] : []), ...files];
+  }
+}
+
+/**
+ * Creates the built-in adapter for a framework.
+ * @param name - The framework name
+ * @param options - Adapter options
+ * @returns The adapter
+ */
+export function createFrameworkAdapter(name: FrameworkName, options: FrameworkOptions = {}): FrameworkAdapter {
+  switch (name) {
+    case 'jest':
+      return new JestAdapter(options);
+    case 'vitest':
+      return new VitestAdapter(options);
+    case 'mocha':
+      return new MochaAdapter(options);
+    case 'node':
+      return new NodeTestAdapter(options);
+    default:
+      return new PlaywrightAdapter(options);
+  }
+}
+
+/**
+ * Checks if a string names a built-in framework.
+ * @param name - The name to check
+ * @returns True for the names accepted by --framework
+ */
+export function isFrameworkName(name: string): name is FrameworkName {
+  return (FRAMEWORK_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Detects the test framework from the repo's package.json dependencies.
+ *
+ * Checked in order: @playwright/test, vitest, jest, mocha. A package that depends on
+ * none of them is assumed to use Playwright (the default) - node:test needs no
+ * dependency, so it can only be chosen with --framework.
+ *
+ * @param repoPath - The repository root
+ * @returns The detected framework
+ */
+export function detectFramework(repoPath: string): FrameworkName {
+  let dependencies: Record<string, unknown> = {};
+
+  try {
+    const packageJson = JSON.parse(fs.readFileSync(path.join(repoPath, 'package.json'), 'utf-8'));
+    dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
+  } catch {
+    // No package.json or unparseable: fall back to the default
+  }
+
+  if ('@playwright/test' in dependencies) return 'playwright';
+  if ('vitest' in dependencies) return 'vitest';
+  if ('jest' in dependencies) return 'jest';
+  if ('mocha' in dependencies) return 'mocha';
+  return 'playwright';
+}
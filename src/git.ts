@@ -1,17 +1,42 @@
 import simpleGit, { SimpleGit } from 'simple-git';
-import { FileDiff, FileStatus } from './types';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FileDiff, FileStatus, LineRange } from './types';
+
+/**
+ * Thrown when a git command fails: not a repository, an unknown ref, a failed diff.
+ */
+export class GitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
 
 /**
  * Custom error class for shallow clone detection.
  * Provides clear guidance for CI environments.
  */
-export class ShallowCloneError extends Error {
+export class ShallowCloneError extends GitError {
   constructor(message: string) {
     super(message);
     this.name = 'ShallowCloneError';
   }
 }
 
+/**
+ * The line information of a single diff hunk.
+ */
+interface ParsedHunk {
+  /** The added or replaced lines in the new file */
+  changedLines: number[];
+  /** For a pure deletion, the new-file line the lines were removed after */
+  deletedAfterLine: number | null;
+  /** The removed or replaced lines in the old file */
+  oldLineRange: LineRange | null;
+}
+
 /**
  * GitService handles all Git operations for retrieving file changes.
  * Uses `git diff -U0` (zero context) to get precise line-level changes.
@@ -75,27 +100,35 @@ export class GitService {
     }
   }
 
+  /**
+   * Checks whether the repository path is inside a Git repository.
+   * @returns True if git commands can run there
+   */
+  async isRepository(): Promise<boolean> {
+    return this.git.checkIsRepo();
+  }
+
   /**
    * Validates that the repository path is a valid Git repository.
-   * @throws Error if not a valid Git repository
+   * @throws GitError if not a valid Git repository
    */
   async validateRepository(): Promise<void> {
-    const isRepo = await this.git.checkIsRepo();
+    const isRepo = await this.isRepository();
     if (!isRepo) {
-      throw new Error(`Path "${this.repoPath}" is not a valid Git repository.`);
+      throw new GitError(`Path "${this.repoPath}" is not a valid Git repository.`);
     }
   }
 
   /**
    * Validates that a commit SHA exists in the repository.
    * @param sha - The commit SHA to validate
-   * @throws Error if the SHA is invalid
+   * @throws GitError if the SHA is invalid
    */
   async validateCommitSha(sha: string): Promise<void> {
     try {
       await this.git.revparse([sha]);
     } catch {
-      throw new Error(`Invalid commit SHA: "${sha}"`);
+      throw new GitError(`Invalid commit SHA: "${sha}"`);
     }
   }
 
@@ -103,27 +136,40 @@ export class GitService {
    * Parses unified diff hunk headers to extract changed line numbers.
    * Hunk format: @@ -oldStart,oldCount +newStart,newCount @@
    * 
+   * Pure deletions (newCount 0) change no line of the new file. For those, newStart is
+   * the line after which the lines were removed, which is kept as the deletion's position.
+   * 
    * @param hunkHeader - The hunk header string (e.g., "@@ -10,0 +15,3 @@")
-   * @returns Array of line numbers that were changed in the new file
+   * @returns The changed new-file lines, the deletion position and the old-side range
    */
-  private parseHunkHeader(hunkHeader: string): number[] {
-    const changedLines: number[] = [];
+  private parseHunkHeader(hunkHeader: string): ParsedHunk {
+    const hunk: ParsedHunk = { changedLines: [], deletedAfterLine: null, oldLineRange: null };
     
-    // Match the new file portion: +start,count or +start
-    const match = hunkHeader.match(/@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    // Match both sides: -start,count +start,count (counts default to 1)
+    const match = hunkHeader.match(/@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
     if (!match) {
-      return changedLines;
+      return hunk;
     }
 
-    const startLine = parseInt(match[1] ?? '0', 10);
-    const lineCount = parseInt(match[2] ?? '1', 10);
+    const oldStartLine = parseInt(match[1] ?? '0', 10);
+    const oldLineCount = parseInt(match[2] ?? '1', 10);
+    const startLine = parseInt(match[3] ?? '0', 10);
+    const lineCount = parseInt(match[4] ?? '1', 10);
+
+    if (oldLineCount > 0) {
+      hunk.oldLineRange = { startLine: oldStartLine, endLine: oldStartLine + oldLineCount - 1 };
+    }
+
+    if (lineCount === 0) {
+      hunk.deletedAfterLine = startLine;
+    }
 
     // Generate all changed line numbers
     for (let i = 0; i < lineCount; i++) {
-      changedLines.push(startLine + i);
+      hunk.changedLines.push(startLine + i);
     }
 
-    return changedLines;
+    return hunk;
   }
 
   /**
@@ -163,94 +209,255 @@ export class GitService {
       // Debug: Uncomment to see raw git output
       // console.log('[DEBUG] Git show output:', rawDiff.substring(0, 500));
 
-      // Parse file statuses
-      const fileStatuses = new Map<string, FileStatus>();
-      const statusLines = statusOutput.split('\n').filter(line => line.trim());
-
-      for (const line of statusLines) {
-        // Skip diff headers and hunk lines
-        if (line.startsWith('diff ') || line.startsWith('@@') || 
-            line.startsWith('index ') || line.startsWith('---') || 
-            line.startsWith('+++') || line.startsWith('+') || 
-            line.startsWith('-') || line.startsWith('\\')) {
-          continue;
-        }
+      return this.parseDiffOutput(rawDiff, statusOutput);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown git error';
+      throw new GitError(`Failed to get changed files for commit ${commitSha}: ${message}`);
+    }
+  }
 
-        const parts = line.split('\t');
-        if (parts.length >= 2) {
-          const statusChar = parts[0]?.charAt(0);
-          // For renames (R100), the new path is in parts[2], otherwise parts[1]
-          const filePath = parts.length >= 3 ? parts[2] ?? '' : parts[1] ?? '';
-
-          if (!filePath) continue;
-
-          let status: FileStatus;
-          switch (statusChar) {
-            case 'A':
-              status = 'ADDED';
-              break;
-            case 'D':
-              status = 'DELETED';
-              break;
-            case 'R':
-              status = 'RENAMED';
-              break;
-            default:
-              status = 'MODIFIED';
-          }
-
-          fileStatuses.set(filePath, status);
-        }
-      }
+  /**
+   * Gets all file changes between two refs as a single merged diff.
+   * Uses `git diff -U0 <base> <head>` so a PR with many commits is analyzed at once,
+   * and every changed line number is relative to the HEAD tree.
+   * 
+   * @param baseRef - The ref to compare from (e.g., the target branch or its merge-base)
+   * @param headRef - The ref to compare to (e.g., the PR branch tip)
+   * @returns Array of FileDiff objects with changed line information
+   * @throws GitError if either ref is invalid
+   */
+  async getChangedFilesInRange(baseRef: string, headRef: string): Promise<FileDiff[]> {
+    await this.validateRepository();
+    await this.validateCommitSha(baseRef);
+    await this.validateCommitSha(headRef);
 
-      // Parse the diff output to extract changed lines per file
-      const fileDiffs: FileDiff[] = [];
-      let currentFile: string | null = null;
-      let currentChangedLines: number[] = [];
-
-      const diffLines = rawDiff.split('\n');
-
-      for (const line of diffLines) {
-        // Match file header: diff --git a/path b/path
-        const fileMatch = line.match(/^diff --git a\/.+ b\/(.+)$/);
-        if (fileMatch) {
-          // Save previous file if exists
-          if (currentFile !== null) {
-            fileDiffs.push({
-              path: currentFile,
-              status: fileStatuses.get(currentFile) ?? 'MODIFIED',
-              changedLines: [...currentChangedLines],
-            });
-          }
-
-          currentFile = fileMatch[1] ?? '';
-          currentChangedLines = [];
-          continue;
-        }
+    try {
+      const rawDiff = await this.git.raw(['diff', '-U0', baseRef, headRef]);
+      const statusOutput = await this.git.raw(['diff', '--name-status', baseRef, headRef]);
 
-        // Match hunk headers: @@ -start,count +start,count @@
-        if (line.startsWith('@@')) {
-          const lineNumbers = this.parseHunkHeader(line);
-          currentChangedLines.push(...lineNumbers);
-        }
-      }
+      return this.parseDiffOutput(rawDiff, statusOutput);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown git error';
+      throw new GitError(`Failed to get changed files between ${baseRef} and ${headRef}: ${message}`);
+    }
+  }
+
+  /**
+   * Gets all uncommitted changes in the working tree (staged and unstaged) relative to HEAD.
+   * Untracked files that are not ignored are reported as ADDED with every line changed,
+   * so a brand-new spec is analyzed before it is ever `git add`-ed.
+   * 
+   * @returns Array of FileDiff objects with changed line information
+   * @throws GitError if the repository has no HEAD commit yet
+   */
+  async getWorkingTreeChanges(): Promise<FileDiff[]> {
+    await this.validateRepository();
+    await this.validateCommitSha('HEAD');
+
+    try {
+      // `git diff HEAD` compares the working tree (including staged edits) against HEAD
+      const rawDiff = await this.git.raw(['diff', '-U0', 'HEAD']);
+      const statusOutput = await this.git.raw(['diff', '--name-status', 'HEAD']);
+      const fileDiffs = this.parseDiffOutput(rawDiff, statusOutput);
+
+      // Untracked files never show up in `git diff`, so list them separately
+      const untrackedOutput = await this.git.raw(['ls-files', '--others', '--exclude-standard']);
+      const untrackedFiles = untrackedOutput.split('\n').filter(line => line.trim());
 
-      // Don't forget the last file
-      if (currentFile !== null) {
+      for (const filePath of untrackedFiles) {
         fileDiffs.push({
-          path: currentFile,
-          status: fileStatuses.get(currentFile) ?? 'MODIFIED',
-          changedLines: [...currentChangedLines],
+          path: filePath,
+          status: 'ADDED',
+          changedLines: await this.getAllLineNumbers(filePath),
         });
       }
 
       return fileDiffs;
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown git error';
-      throw new Error(`Failed to get changed files for commit ${commitSha}: ${message}`);
+      throw new GitError(`Failed to get working tree changes: ${message}`);
     }
   }
 
+  /**
+   * Gets the changes staged in the index relative to HEAD (`git diff --cached`).
+   * Line numbers are relative to the staged version of each file.
+   * 
+   * @returns Array of FileDiff objects with changed line information
+   * @throws GitError if the repository has no HEAD commit yet
+   */
+  async getStagedChanges(): Promise<FileDiff[]> {
+    await this.validateRepository();
+    await this.validateCommitSha('HEAD');
+
+    try {
+      const rawDiff = await this.git.raw(['diff', '--cached', '-U0', 'HEAD']);
+      const statusOutput = await this.git.raw(['diff', '--cached', '--name-status', 'HEAD']);
+
+      return this.parseDiffOutput(rawDiff, statusOutput);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown git error';
+      throw new GitError(`Failed to get staged changes: ${message}`);
+    }
+  }
+
+  /**
+   * Lists every line number of a file on disk (1..lineCount).
+   * Used for untracked files, which have no diff to parse.
+   * 
+   * @param filePath - The path to the file (relative to repo root)
+   * @returns Array of all line numbers, or an empty array if the file can't be read
+   */
+  private async getAllLineNumbers(filePath: string): Promise<number[]> {
+    try {
+      const content = await fs.promises.readFile(path.join(this.repoPath, filePath), 'utf8');
+      const lineCount = content.endsWith('\n')
+        ? content.split('\n').length - 1
+        : content.split('\n').length;
+      return Array.from({ length: lineCount }, (_, i) => i + 1);
+    } catch {
+      // Unreadable file (e.g. a broken symlink) - nothing to map
+      return [];
+    }
+  }
+
+  /**
+   * Finds the best common ancestor of two refs (`git merge-base`).
+   * This is the commit a PR branch was forked from, so diffing against it
+   * ignores changes that landed on the target branch in the meantime.
+   * 
+   * @param baseRef - The target branch ref
+   * @param headRef - The PR branch ref
+   * @returns The merge-base commit SHA
+   * @throws ShallowCloneError if the merge-base is outside the fetched history
+   * @throws GitError if the refs share no history
+   */
+  async getMergeBase(baseRef: string, headRef: string): Promise<string> {
+    await this.validateRepository();
+    await this.validateCommitSha(baseRef);
+    await this.validateCommitSha(headRef);
+
+    try {
+      const mergeBase = await this.git.raw(['merge-base', baseRef, headRef]);
+      return mergeBase.trim();
+    } catch {
+      if (await this.checkIsShallowRepository()) {
+        throw new ShallowCloneError(
+          'Error: This is a shallow clone. The merge-base of the given refs is not available. ' +
+          "Please update your CI checkout configuration to set 'fetch-depth: 0'."
+        );
+      }
+      throw new GitError(`No merge-base found between "${baseRef}" and "${headRef}"`);
+    }
+  }
+
+  /**
+   * Resolves a ref (branch, tag, HEAD~2, ...) to its full commit SHA.
+   * 
+   * @param ref - The ref to resolve
+   * @returns The full commit SHA
+   * @throws GitError if the ref is invalid
+   */
+  async resolveRef(ref: string): Promise<string> {
+    try {
+      const sha = await this.git.revparse([ref]);
+      return sha.trim();
+    } catch {
+      throw new GitError(`Invalid commit SHA: "${ref}"`);
+    }
+  }
+
+  /**
+   * Parses raw `-U0` diff output plus `--name-status` output into FileDiff objects.
+   * Shared by single-commit (`git show`) and range (`git diff`) modes.
+   * 
+   * @param rawDiff - The zero-context unified diff
+   * @param statusOutput - The name-status listing for the same diff
+   * @returns Array of FileDiff objects with changed line information
+   */
+  private parseDiffOutput(rawDiff: string, statusOutput: string): FileDiff[] {
+    // Parse file statuses
+    const fileStatuses = new Map<string, FileStatus>();
+    const oldPaths = new Map<string, string>();
+    const statusLines = statusOutput.split('\n').filter(line => line.trim());
+
+    for (const line of statusLines) {
+      // Skip diff headers and hunk lines
+      if (line.startsWith('diff ') || line.startsWith('@@') || 
+          line.startsWith('index ') || line.startsWith('---') || 
+          line.startsWith('+++') || line.startsWith('+') || 
+          line.startsWith('-') || line.startsWith('\\')) {
+        continue;
+      }
+
+      const parts = line.split('\t');
+      if (parts.length >= 2) {
+        const statusChar = parts[0]?.charAt(0);
+        // For renames (R100), the new path is in parts[2], otherwise parts[1]
+        const filePath = parts.length >= 3 ? parts[2] ?? '' : parts[1] ?? '';
+
+        if (!filePath) continue;
+
+        let status: FileStatus;
+        switch (statusChar) {
+          case 'A':
+            status = 'ADDED';
+            break;
+          case 'D':
+            status = 'DELETED';
+            break;
+          case 'R':
+            status = 'RENAMED';
+            oldPaths.set(filePath, parts[1] ?? '');
+            break;
+          default:
+            status = 'MODIFIED';
+        }
+
+        fileStatuses.set(filePath, status);
+      }
+    }
+
+    // Parse the diff output to extract changed lines per file
+    const fileDiffs: FileDiff[] = [];
+    let currentDiff: FileDiff | null = null;
+
+    const diffLines = rawDiff.split('\n');
+
+    for (const line of diffLines) {
+      // Match file header: diff --git a/path b/path
+      const fileMatch = line.match(/^diff --git a\/.+ b\/(.+)$/);
+      if (fileMatch) {
+        const filePath = fileMatch[1] ?? '';
+        const oldPath = oldPaths.get(filePath);
+        currentDiff = {
+          path: filePath,
+          status: fileStatuses.get(filePath) ?? 'MODIFIED',
+          ...(oldPath ? { oldPath } : {}),
+          changedLines: [],
+          deletedAfterLines: [],
+          oldLineRanges: [],
+        };
+        fileDiffs.push(currentDiff);
+        continue;
+      }
+
+      // Match hunk headers: @@ -start,count +start,count @@
+      if (line.startsWith('@@') && currentDiff) {
+        const hunk = this.parseHunkHeader(line);
+        currentDiff.changedLines.push(...hunk.changedLines);
+        if (hunk.deletedAfterLine !== null) {
+          currentDiff.deletedAfterLines?.push(hunk.deletedAfterLine);
+        }
+        if (hunk.oldLineRange) {
+          currentDiff.oldLineRanges?.push(hunk.oldLineRange);
+        }
+      }
+    }
+
+    return fileDiffs;
+  }
+
   /**
    * Gets the content of a file at a specific commit.
    * Uses `git show <commit>:<path>` to retrieve historical file content.
@@ -273,6 +480,100 @@ export class GitService {
     }
   }
 
+  /**
+   * Lists every file path in a commit's tree, or in the index.
+   * 
+   * @param commitSha - The commit to list, or null to list the staged files in the index
+   * @returns Paths relative to the repo root
+   */
+  async listFiles(commitSha: string | null): Promise<string[]> {
+    try {
+      // -z: NUL-separated output, so paths with special characters aren't quoted
+      const output = commitSha
+        ? await this.git.raw(['ls-tree', '-r', '--full-tree', '--name-only', '-z', commitSha])
+        : await this.git.raw(['ls-files', '--cached', '-z']);
+      return output.split('\0').filter(filePath => filePath);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown git error';
+      throw new GitError(`Failed to list files of ${commitSha ?? 'the index'}: ${message}`);
+    }
+  }
+
+  /**
+   * Lists the files of the working tree that git doesn't ignore: the tracked ones and the
+   * untracked ones outside .gitignore, so build output (dist/, coverage/, ...) is left out.
+   * 
+   * @returns Paths relative to the repo root
+   */
+  async listWorkingTreeFiles(): Promise<string[]> {
+    try {
+      const output = await this.git.raw(['ls-files', '--cached', '--others', '--exclude-standard', '-z']);
+      // A conflicted path is listed once per stage
+      return Array.from(new Set(output.split('\0').filter(filePath => filePath)));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown git error';
+      throw new GitError(`Failed to list files of the working tree: ${message}`);
+    }
+  }
+
+  /**
+   * Reads many files from a commit (or the index) in a single `git cat-file --batch` process.
+   * Spawning `git show` once per file is far too slow when a whole tree has to be loaded.
+   * 
+   * Batch output format, per requested object:
+   *   `<sha> <type> <size>\n<content>\n`  or  `<spec> missing\n`
+   * 
+   * @param commitSha - The commit to read from, or null to read the staged versions
+   * @param filePaths - Paths relative to the repo root
+   * @returns Map of path to content; paths missing from the tree are omitted
+   */
+  async getFileContents(commitSha: string | null, filePaths: string[]): Promise<Map<string, string>> {
+    const contents = new Map<string, string>();
+    if (filePaths.length === 0) {
+      return contents;
+    }
+
+    // `<sha>:<path>` addresses a blob in a commit, `:<path>` addresses the staged blob
+    const normalizedPaths = filePaths.map(filePath => filePath.replace(/\\/g, '/'));
+    const specs = normalizedPaths.map(filePath => `${commitSha ?? ''}:${filePath}`);
+
+    const output = await new Promise<Buffer>((resolve, reject) => {
+      const child = spawn('git', ['cat-file', '--batch'], { cwd: this.repoPath });
+      const chunks: Buffer[] = [];
+
+      child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+      child.on('error', reject);
+      child.on('close', code => {
+        if (code === 0) {
+          resolve(Buffer.concat(chunks));
+        } else {
+          reject(new Error(`git cat-file exited with code ${code}`));
+        }
+      });
+      child.stdin.end(specs.join('\n') + '\n');
+    });
+
+    // Responses arrive in request order, one per spec
+    let offset = 0;
+    for (const filePath of normalizedPaths) {
+      const headerEnd = output.indexOf(0x0a, offset);
+      if (headerEnd === -1) break;
+
+      const header = output.subarray(offset, headerEnd).toString('utf8');
+      offset = headerEnd + 1;
+
+      // `<spec> missing` / `<spec> ambiguous` - the path isn't in this tree
+      if (header.endsWith(' missing') || header.endsWith(' ambiguous')) continue;
+
+      const size = parseInt(header.split(' ')[2] ?? '0', 10);
+      contents.set(filePath, output.subarray(offset, offset + size).toString('utf8'));
+      // Skip the content plus its trailing newline
+      offset += size + 1;
+    }
+
+    return contents;
+  }
+
   /**
    * Gets the parent commit SHA for a given commit.
    * Useful for comparing current state against previous state.
@@ -0,0 +1,149 @@
+import { ImportGraph, ImportGraphNode, ImportGraphNodeKind } from './types';
+
+export const GRAPH_FORMATS = ['dot', 'mermaid', 'json'] as const;
+
+export type GraphFormat = typeof GRAPH_FORMATS[number];
+
+/** Fill colors per node kind, shared by the DOT and Mermaid output */
+const KIND_COLORS: Record<ImportGraphNodeKind, string> = {
+  test: '#dbeafe',
+  fixture: '#dcfce7',
+  helper: '#f3f4f6',
+};
+
+/** Outline of the changed nodes */
+const CHANGED_COLOR = '#dc2626';
+
+/**
+ * Checks if a string is a supported graph format.
+ * @param format - The format name to check
+ * @returns True if the format is supported
+ */
+export function isGraphFormat(format: string): format is GraphFormat {
+  return (GRAPH_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * Reduces an import graph to the files a change to one file reaches: the file and every
+ * file importing it, directly or transitively (the files findDependentTestFiles walks).
+ *
+ * @param graph - The import graph
+ * @param file - The starting file, relative to the repo root
+ * @returns The subgraph, or null if the file is not in the graph
+ */
+export function getReachableSubgraph(graph: ImportGraph, file: string): ImportGraph | null {
+  if (!graph.nodes.some(node => node.file === file)) {
+    return null;
+  }
+
+  const reached = new Set([file]);
+  const queue = [file];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of graph.edges) {
+      if (edge.to === current && !reached.has(edge.from)) {
+        reached.add(edge.from);
+        queue.push(edge.from);
+      }
+    }
+  }
+
+  return {
+    nodes: graph.nodes.filter(node => reached.has(node.file)),
+    edges: graph.edges.filter(edge => reached.has(edge.from) && reached.has(edge.to)),
+  };
+}
+
+/**
+ * Renders an import graph. Edges point from the importing file to the imported one;
+ * nodes are colored by kind, and changed nodes are outlined in red.
+ *
+ * @param graph - The import graph
+ * @param format - Graphviz DOT, a Mermaid flowchart or JSON
+ * @returns The rendered graph
+ */
+export function formatGraph(graph: ImportGraph, format: GraphFormat): string {
+  switch (format) {
+    case 'dot':
+      return toDot(graph);
+    case 'mermaid':
+      return toMermaid(graph);
+    case 'json':
+      return JSON.stringify(graph);
+  }
+}
+
+/**
+ * Node label: the file, and the number of tests depending on it (spotting "god helpers").
+ * @param node - The node
+ * @param lineBreak - The line break of the output format
+ * @returns The label
+ */
+function getLabel(node: ImportGraphNode, lineBreak: string): string {
+  return node.kind !== 'test' && node.dependentTests > 0
+    ? `${node.file}${lineBreak}${node.dependentTests} test file(s)`
+    : node.file;
+}
+
+/**
+ * Renders an import graph as Graphviz DOT.
+ * @param graph - The import graph
+ * @returns The DOT source
+ */
+function toDot(graph: ImportGraph): string {
+  const quote = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+  const lines = [
+    'digraph imports {',
+    '  rankdir=LR;',
+    '  node [shape=box, style=filled, fontname="Helvetica"];',
+  ];
+
+  for (const node of graph.nodes) {
+    const attributes = [
+      `label=${quote(getLabel(node, '\n')).replace(/\n/g, '\\n')}`,
+      `fillcolor=${quote(KIND_COLORS[node.kind])}`,
+      ...(node.kind === 'test' ? ['shape=note'] : []),
+      ...(node.changed ? [`color=${quote(CHANGED_COLOR)}`, 'penwidth=3'] : []),
+    ];
+    lines.push(`  ${quote(node.file)} [${attributes.join(', ')}];`);
+  }
+  for (const edge of graph.edges) {
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Renders an import graph as a Mermaid flowchart.
+ * Node ids are generated, as file paths contain characters Mermaid ids can't.
+ *
+ * @param graph - The import graph
+ * @returns The Mermaid source
+ */
+function toMermaid(graph: ImportGraph): string {
+  const ids = new Map(graph.nodes.map((node, index) => [node.file, `n${index}`]));
+  const lines = ['graph LR'];
+
+  for (const node of graph.nodes) {
+    lines.push(`  ${ids.get(node.file)}["${getLabel(node, '<br/>').replace(/"/g, '#quot;')}"]`);
+  }
+  for (const edge of graph.edges) {
+    lines.push(`  ${ids.get(edge.from)} --> ${ids.get(edge.to)}`);
+  }
+
+  for (const [kind, color] of Object.entries(KIND_COLORS)) {
+    lines.push(`  classDef ${kind} fill:${color},stroke:#6b7280`);
+  }
+  lines.push(`  classDef changed stroke:${CHANGED_COLOR},stroke-width:3px`);
+  for (const node of graph.nodes) {
+    lines.push(`  class ${ids.get(node.file)} ${node.kind}`);
+  }
+  const changedIds = graph.nodes.filter(node => node.changed).map(node => ids.get(node.file));
+  if (changedIds.length > 0) {
+    lines.push(`  class ${changedIds.join(',')} changed`);
+  }
+
+  return lines.join('\n');
+}
@@ -2,12 +2,21 @@
 
 import { Command } from 'commander';
 import chalk from 'chalk';
-import * as path from 'path';
-import * as fs from 'fs';
-import { Project } from 'ts-morph';
-import { GitService } from './git';
-import { Analyzer } from './analyzer';
-import { AnalysisReport, FileAnalysisResult, FileStatus, ImpactType, FileDiff } from './types';
+import { CACHE_DIR_NAME } from './cache';
+import { FRAMEWORK_NAMES, isFrameworkName } from './frameworks';
+import { PROFILE_PHASES, ProfileTimings } from './profiler';
+import {
+  buildImportGraph,
+  GitError,
+  ImportGraphOptions,
+  Logger,
+  selectTests,
+  SelectionMode,
+  toJsonImpact,
+  toJsonOutput,
+} from './api';
+import { formatGraph, GRAPH_FORMATS, isGraphFormat } from './graph-export';
+import { AnalysisReport, FileAnalysisResult, FileStatus, ImpactedTest, ImpactReason, ImpactType, TriggeredRule } from './types';
 
 /**
  * Smart Test Selector CLI
@@ -16,6 +25,27 @@ import { AnalysisReport, FileAnalysisResult, FileStatus, ImpactType, FileDiff }
  * Uses AST analysis to provide granular test selection.
  */
 
+/**
+ * The options of the CLI, shared by the selection and its subcommands.
+ */
+interface CliOptions {
+  commit?: string;
+  base?: string;
+  head?: string;
+  mergeBase: boolean;
+  workingTree: boolean;
+  staged: boolean;
+  repo: string;
+  json: boolean;
+  all: boolean;
+  framework?: string;
+  testCallees?: string;
+  config?: string;
+  cache: boolean;
+  workers: string;
+  profile: boolean;
+}
+
 const program = new Command();
 
 program
@@ -23,38 +53,40 @@ program
   .description('Identify which tests need to run based on Git changes')
   .version('1.0.0')
   .option('--commit <sha>', 'The commit SHA to compare against HEAD')
+  .option('--base <ref>', 'Base ref of a range (e.g. origin/main); analyzes every change up to --head')
+  .option('--head <ref>', 'Head ref of a range (defaults to HEAD when --base is given)')
+  .option('--merge-base', 'Diff from the merge-base of --base and --head instead of --base itself', false)
+  .option('--working-tree', 'Analyze uncommitted changes (staged, unstaged and untracked) against HEAD', false)
+  .option('--staged', 'Analyze changes staged in the index against HEAD', false)
   .requiredOption('--repo <path>', 'Path to the Git repository')
   .option('--json', 'Output results as JSON (for CI pipelines)', false)
   .option('--all', 'Analyze ALL tests in the repository (ignores git)', false)
-  .parse(process.argv);
+  .option('--framework <name>', `Test framework (${FRAMEWORK_NAMES.join(', ')}); detected from package.json by default`)
+  .option('--config <path>', 'Config file (defaults to smart-test.config.ts/.js or .smarttestrc[.json] in the repo root)')
+  .option('--test-callees <names>', 'Comma-separated extra callee names to treat as the test function (e.g. smoke,apiTest)')
+  .option('--no-cache', `Parse every file used instead of reading and updating ${CACHE_DIR_NAME}/`)
+  .option('--workers <count>', 'Worker threads to analyze the changed files in (each loads its own copy of the project)', '1')
+  .option('--profile', 'Report the time spent per phase (git, parse, graph, selection)', false)
+  .action(() => main());
 
-const options = program.opts<{ commit?: string; repo: string; json: boolean; all: boolean }>();
+program
+  .command('explain')
+  .description('Explain why a test is selected: the chain from the changed file to the test')
+  .argument('<test>', 'The test title: the full "Suite > test" title, the test\'s own title, or a part of it')
+  .action((testTitle: string) => explain(testTitle));
 
-/**
- * JSON output schema for CI pipelines.
- */
-interface JsonOutput {
-  files: string[];
-  tests: string[];
-  /** Playwright-compatible regex pattern for -g/--grep flag */
-  grep: string;
-  /** Files that contain dynamic test names and must be run in File Mode */
-  filesWithDynamicTests: string[];
-  /** True if any tests have dynamic names requiring File Mode fallback */
-  hasDynamicTests: boolean;
-}
+program
+  .command('graph')
+  .description('Export the import graph of specs, fixtures and helpers; a mode flag marks the changed files')
+  .option('--format <format>', `Output format (${GRAPH_FORMATS.join(', ')}); dot by default, json with --json`)
+  .option('--from <file>', 'Only the files a change to this file reaches (it and its importers, transitively)')
+  .action((graphOptions: { format?: string; from?: string }) => graph(graphOptions));
 
-/**
- * Escapes special regex characters in a string.
- * This ensures test names with special characters like () [] ? + * don't break the regex pattern.
- * 
- * @param str - The string to escape
- * @returns The escaped string safe for use in regex
- */
-function escapeRegExp(str: string): string {
-  // Escape all regex special characters: \ ^ $ . | ? * + ( ) [ ] { }
-  return str.replace(/[\\^$.|?*+()\[\]{}]/g, '\\$&');
-}
+// Commander fills the option values in while parsing, right before running an action
+let options = program.opts<CliOptions>();
+program.hook('preAction', () => {
+  options = program.opts<CliOptions>();
+});
 
 /**
  * Logger utility that respects JSON mode.
@@ -122,15 +154,50 @@ function getImpactLabel(impactType: ImpactType): string {
   switch (impactType) {
     case 'DIRECT':
       return chalk.cyan('[DIRECT IMPACT]');
+    case 'LOCAL_DEPENDENCY':
+      return chalk.blue('[LOCAL DEPENDENCY]');
     case 'DEPENDENCY':
       return chalk.magenta('[DEPENDENCY]');
+    case 'DEPENDENCY_DELETED':
+      return chalk.magenta('[DEPENDENCY DELETED]');
+    case 'DATA_DEPENDENCY':
+      return chalk.magenta('[DATA DEPENDENCY]');
     case 'REMOVED':
       return chalk.red('[REMOVED]');
+    case 'RENAMED':
+      return chalk.yellow('[RENAMED]');
+    case 'MOVED':
+      return chalk.yellow('[MOVED]');
+    case 'RUN_ALL':
+      return chalk.white('[RUN ALL]');
+    case 'TAGGED':
+      return chalk.white('[TAGGED]');
+    case 'ALWAYS_RUN':
+      return chalk.white('[ALWAYS RUN]');
     default:
       return chalk.gray('[UNKNOWN]');
   }
 }
 
+/**
+ * Returns where a test came from, for the tests selected with one.
+ * @param test - The selected test
+ * @returns Chalk-formatted origin, or an empty string
+ */
+function getImpactOrigin(test: ImpactedTest): string {
+  // Renamed and moved tests show where they came from
+  if (test.impactType === 'RENAMED') {
+    return chalk.gray(` (was "${test.previousName}")`);
+  } else if (test.impactType === 'MOVED') {
+    return chalk.gray(` (was "${test.previousName}" in ${test.previousFile})`);
+  } else if (test.dataFile) {
+    return chalk.gray(` (data: ${test.dataFile})`);
+  } else if (test.rule) {
+    return chalk.gray(` (rule: ${test.rule})`);
+  }
+  return '';
+}
+
 /**
  * Prints a file result group to the console.
  * @param fileResult - The file analysis result to print
@@ -140,7 +207,8 @@ function printFileResult(fileResult: FileAnalysisResult): void {
   const icon = getStatusIcon(fileResult.status);
   
   logger.log();
-  logger.log(color(`${icon} ${fileResult.filePath} [${fileResult.status}]`));
+  const origin = fileResult.oldPath ? chalk.gray(` (from ${fileResult.oldPath})`) : '';
+  logger.log(color(`${icon} ${fileResult.filePath} [${fileResult.status}]`) + origin);
   
   // REMOVED THE BLOCKER HERE (The "if DELETED return" check)
   
@@ -169,11 +237,29 @@ function printFileResult(fileResult: FileAnalysisResult): void {
     logger.log(
       chalk.gray(`   ${prefix} `) +
       chalk.white(`"${test.testName}"`) +
-      ` ${impactLabel}`
+      ` ${impactLabel}` +
+      getImpactOrigin(test)
     );
   }
 }
 
+/**
+ * Prints a fired trigger rule with its action and the files that fired it.
+ * @param rule - The fired rule
+ */
+function printTriggeredRule(rule: TriggeredRule): void {
+  const action = rule.action === 'project'
+    ? `run project "${rule.project}"`
+    : rule.action === 'tag'
+      ? `run tests tagged ${rule.tag}`
+      : rule.action === 'run-all' ? 'run all tests' : 'ignore';
+  logger.log();
+  logger.log(chalk.white(`⚡ ${rule.name}`) + chalk.gray(` → ${action}`));
+  for (const file of rule.files) {
+    logger.log(chalk.gray(`   └── ${file}`));
+  }
+}
+
 /**
  * Prints the complete analysis report to the console.
  * @param report - The analysis report to print
@@ -183,6 +269,9 @@ function printReport(report: AnalysisReport): void {
   logger.log(chalk.bold.underline('📊 Smart Test Selector Report'));
   logger.log();
   logger.log(chalk.gray('Commit:    ') + chalk.white(report.commitSha));
+  if (report.baseSha) {
+    logger.log(chalk.gray('Base:      ') + chalk.white(report.baseSha));
+  }
   logger.log(chalk.gray('Repo:      ') + chalk.white(report.repoPath));
   logger.log(chalk.gray('Files:     ') + chalk.white(report.fileResults.length.toString()));
   logger.log(chalk.gray('Tests:     ') + chalk.white(report.totalTestsSelected.toString()));
@@ -194,8 +283,25 @@ function printReport(report: AnalysisReport): void {
   logger.log(chalk.red('  ✖ DELETED') + chalk.gray(' - Removed files'));
   logger.log(chalk.blue('  ➜ RENAMED') + chalk.gray(' - Renamed files'));
   logger.log(chalk.cyan('  [DIRECT IMPACT]') + chalk.gray(' - Test code was changed'));
+  logger.log(chalk.blue('  [LOCAL DEPENDENCY]') + chalk.gray(' - Test uses changed code in its spec file'));
   logger.log(chalk.magenta('  [DEPENDENCY]') + chalk.gray(' - Test depends on changed code'));
+  logger.log(chalk.magenta('  [DEPENDENCY DELETED]') + chalk.gray(' - Test depended on a deleted file'));
+  logger.log(chalk.magenta('  [DATA DEPENDENCY]') + chalk.gray(' - Test loads a changed data file'));
   logger.log(chalk.red('  [REMOVED]') + chalk.gray(' - Test was removed'));
+  logger.log(chalk.yellow('  [RENAMED]') + chalk.gray(' - Test title changed, same body'));
+  logger.log(chalk.yellow('  [MOVED]') + chalk.gray(' - Test moved from another spec file'));
+  logger.log(chalk.white('  [RUN ALL]') + chalk.gray(' - A file matched by a run-all rule changed'));
+  logger.log(chalk.white('  [TAGGED]') + chalk.gray(' - Test has the tag of a fired tag rule'));
+  logger.log(chalk.white('  [ALWAYS RUN]') + chalk.gray(' - Test file is configured to always run'));
+  
+  if (report.triggeredRules && report.triggeredRules.length > 0) {
+    logger.log();
+    logger.log(chalk.bold('─'.repeat(60)));
+    logger.log(chalk.bold('Triggered Rules:'));
+    for (const rule of report.triggeredRules) {
+      printTriggeredRule(rule);
+    }
+  }
   
   logger.log();
   logger.log(chalk.bold('─'.repeat(60)));
@@ -221,259 +327,273 @@ function printReport(report: AnalysisReport): void {
 }
 
 /**
- * Converts an analysis report to JSON output format.
- * Generates a Playwright-compatible grep pattern for granular test execution.
- * 
- * Dynamic Test Name Fallback Strategy:
- * - Tests with dynamic names (template literals with ${...}) cannot be safely grepped
- * - If a file contains dynamic tests, it's added to filesWithDynamicTests
- * - Dynamic tests are EXCLUDED from the grep pattern
- * - The runner script should detect hasDynamicTests and run those files in File Mode
- * 
- * @param report - The analysis report to convert
- * @returns JSON output object with files, tests arrays, grep pattern, and dynamic test info
+ * Prints the time spent per phase (--profile).
+ * Phases run in worker threads are summed over the threads, so they can add up to more than the total.
+ * @param profile - Milliseconds per phase, and the run's wall-clock total
  */
-function toJsonOutput(report: AnalysisReport): JsonOutput {
-  const filesSet = new Set<string>();
-  const testsSet = new Set<string>();
-  const dynamicFilesSet = new Set<string>();
-  let hasDynamicTests = false;
-
-  for (const fileResult of report.fileResults) {
-    // Check if this file has dynamic tests
-    if (fileResult.hasDynamicTests) {
-      hasDynamicTests = true;
-      dynamicFilesSet.add(fileResult.filePath);
-      // Still add to files list for File Mode execution
-      filesSet.add(fileResult.filePath);
-      // Skip adding tests from this file to the grep pattern
-      continue;
-    }
+function printProfile(profile: ProfileTimings & { total: number }): void {
+  logger.log(chalk.bold('⏱ Profile:'));
+  for (const phase of PROFILE_PHASES) {
+    logger.log(chalk.gray(`  ${phase.padEnd(10)}`) + chalk.white(`${Math.round(profile[phase])} ms`));
+  }
+  logger.log(chalk.gray(`  ${'total'.padEnd(10)}`) + chalk.white(`${Math.round(profile.total)} ms`));
+  logger.log();
+}
 
-    // Add file path if it has impacted tests
-    if (fileResult.tests.length > 0) {
-      filesSet.add(fileResult.filePath);
-    }
+/**
+ * Progress messages of selectTests, colored for the console (silenced in JSON mode).
+ */
+const progressLogger: Logger = {
+  info: message => logger.log(chalk.gray(message)),
+  warn: message => logger.log(chalk.yellow(message)),
+};
 
-    // Add each non-dynamic test name
-    for (const test of fileResult.tests) {
-      // Double-check: skip individual dynamic tests even if file isn't flagged
-      if (test.isDynamic) {
-        hasDynamicTests = true;
-        dynamicFilesSet.add(fileResult.filePath);
-        continue;
-      }
-      testsSet.add(test.testName);
-    }
+/**
+ * Prints an invalid option error and exits with 1 (the empty JSON output in JSON mode).
+ * @param message - What is wrong with the options
+ */
+function exitWithOptionError(message: string): never {
+  if (options.json) {
+    console.log(JSON.stringify({ files: [], tests: [], grep: "" }));
+    process.exit(1);
   }
+  logger.error(chalk.red(`✖ Error: ${message}`));
+  process.exit(1);
+}
 
-  const testsArray = Array.from(testsSet);
+/**
+ * Validates the mode flags and the options shared by every command.
+ * Exits on invalid options.
+ * 
+ * @param isModeRequired - False if the command runs without a mode flag (as --all)
+ * @returns The mode the flags select
+ */
+function getMode(isModeRequired: boolean): SelectionMode {
+  // Validate required options
+  if (isModeRequired && !options.all && !options.commit && !options.base && !options.workingTree && !options.staged) {
+    exitWithOptionError('One of --commit, --base, --working-tree, --staged or --all must be specified');
+  }
+  
+  // Validate that only one analysis mode is selected
+  const selectedModes = [options.commit, options.base, options.workingTree, options.staged, options.all]
+    .filter(Boolean).length;
+  const optionError = selectedModes > 1
+    ? 'Only one of --commit, --base, --working-tree, --staged or --all can be specified'
+    : !options.base && (options.head || options.mergeBase)
+      ? '--head and --merge-base require --base'
+      : options.framework && !isFrameworkName(options.framework)
+        ? `Unknown framework "${options.framework}" (expected one of: ${FRAMEWORK_NAMES.join(', ')})`
+        : !/^[1-9]\d*$/.test(options.workers)
+          ? `--workers must be a positive integer (got "${options.workers}")`
+          : null;
+  if (optionError) {
+    exitWithOptionError(optionError);
+  }
   
-  // Generate Playwright-compatible grep pattern
-  // Only include non-dynamic test names
-  // Join escaped test names with | (OR operator in regex)
-  const grepPattern = testsArray.length > 0
-    ? testsArray.map(escapeRegExp).join('|')
-    : '';
+  return options.base
+    ? 'range'
+    : options.workingTree
+      ? 'working-tree'
+      : options.staged
+        ? 'staged'
+        : options.commit ? 'commit' : 'all';
+}
 
+/**
+ * Maps the flags shared by every command to API options.
+ * @param mode - The mode the flags select
+ * @returns The options (without the selection-only workers and profile)
+ */
+function getApiOptions(mode: SelectionMode): ImportGraphOptions {
   return {
-    files: Array.from(filesSet),
-    tests: testsArray,
-    grep: grepPattern,
-    filesWithDynamicTests: Array.from(dynamicFilesSet),
-    hasDynamicTests,
+    repo: options.repo,
+    mode,
+    commit: options.commit,
+    base: options.base,
+    head: options.head,
+    mergeBase: options.mergeBase,
+    config: options.config,
+    framework: options.framework && isFrameworkName(options.framework) ? options.framework : undefined,
+    testCallees: options.testCallees?.split(',').map(name => name.trim()).filter(Boolean),
+    cache: options.cache,
+    logger: progressLogger,
   };
 }
 
+/**
+ * Runs the selection the options describe.
+ * Exits on invalid options, and when nothing changed.
+ * 
+ * @returns The analysis report
+ */
+async function runSelection(): Promise<AnalysisReport> {
+  const mode = getMode(true);
+  const report = await selectTests({
+    ...getApiOptions(mode),
+    workers: parseInt(options.workers, 10),
+    profile: options.profile,
+  });
+  
+  // Exit early if no changes found
+  if (mode !== 'all' && report.changedFiles.length === 0) {
+    if (options.json) {
+      console.log(JSON.stringify({ files: [], tests: [], grep: "" }));
+      process.exit(0);
+    }
+    logger.log();
+    logger.log(chalk.yellow(mode === 'working-tree' || mode === 'staged'
+      ? '⚠ No uncommitted changes found.'
+      : mode === 'range'
+        ? '⚠ No file changes found between the base and head refs.'
+        : '⚠ No file changes found between the commit and HEAD.'));
+    logger.log(chalk.gray('This could mean:'));
+    logger.log(chalk.gray('  • The commit SHA is the same as HEAD'));
+    logger.log(chalk.gray('  • All changes have been reverted'));
+    logger.log();
+    process.exit(0);
+  }
+  
+  return report;
+}
+
 /**
  * Main entry point for the CLI.
  */
 async function main(): Promise<void> {
   try {
-    // Resolve the repository path (handles relative paths)
-    const repoPath = path.resolve(options.repo);
-    const commitSha = options.commit || 'ALL';
+    const report = await runSelection();
     
-    // Validate required options
-    if (!options.all && !options.commit) {
-      if (options.json) {
-        console.log(JSON.stringify({ files: [], tests: [], grep: "" }));
-        process.exit(1);
+    // Output based on mode
+    if (options.json) {
+      // JSON mode: Output single valid JSON object
+      console.log(JSON.stringify(toJsonOutput(report)));
+    } else {
+      // Human-readable mode: Print the colorized report
+      printReport(report);
+      if (report.profile) {
+        printProfile(report.profile);
       }
-      logger.error(chalk.red('✖ Error: Either --commit or --all must be specified'));
-      process.exit(1);
     }
+  } catch (error) {
+    exitWithError(error);
+  }
+}
+
+/**
+ * Entry point of `explain`: prints why the tests matching a title are selected.
+ * Exits with 1 if no selected test matches.
+ * 
+ * @param testTitle - The full title, the test's own title or a part of it
+ */
+async function explain(testTitle: string): Promise<void> {
+  try {
+    const report = await runSelection();
+    const tests = findTestsByTitle(report, testTitle);
     
-    // Validate repository path exists
-    if (!fs.existsSync(repoPath)) {
-      if (options.json) {
-        // In JSON mode, output empty result and exit
-        console.log(JSON.stringify({ files: [], tests: [], grep: "" }));
-        process.exit(1);
-      }
-      logger.error(chalk.red(`✖ Error: Repository path does not exist: ${repoPath}`));
-      process.exit(1);
+    if (options.json) {
+      console.log(JSON.stringify({ test: testTitle, impacts: tests.map(toJsonImpact) }));
+      process.exit(tests.length > 0 ? 0 : 1);
     }
     
-    // Check if path is a directory
-    const stat = fs.statSync(repoPath);
-    if (!stat.isDirectory()) {
-      if (options.json) {
-        console.log(JSON.stringify({ files: [], tests: [], grep: "" }));
-        process.exit(1);
-      }
-      logger.error(chalk.red(`✖ Error: Path is not a directory: ${repoPath}`));
+    logger.log();
+    if (tests.length === 0) {
+      logger.log(chalk.yellow(`⚠ No selected test matches "${testTitle}".`));
+      logger.log();
       process.exit(1);
     }
     
-    logger.log(chalk.gray('Analyzing changes...'));
-    logger.log(chalk.gray(`Repository: ${repoPath}`));
-    logger.log(chalk.gray(`Commit: ${commitSha}`));
-    
-    let changedFiles: FileDiff[];
-    
-    if (options.all) {
-      // --- NEW LOGIC: SCAN EVERYTHING ---
-      logger.log(chalk.blue('🔍 Scanning entire repository (Mode: ALL)...'));
-      
-      // Initialize Project WITHOUT tsconfig to avoid "exclude" rules
-      // This ensures we find ALL test files including example.spec.ts
-      const project = new Project({
-        // Don't use tsconfig - it may exclude files we want to analyze
-      });
-      
-      // Manually add source files using Glob patterns
-      // This forces finding ALL .spec.ts and .test.ts files regardless of tsconfig exclusions
-      project.addSourceFilesAtPaths([
-        path.join(repoPath, '**/*.spec.ts'),
-        path.join(repoPath, '**/*.test.ts'),
-        path.join(repoPath, 'tests/**/*.setup.ts'),
-      ]);
-      
-      // Get every test file
-      const allSourceFiles = project.getSourceFiles();
-      
-      // Filter out node_modules and map to FileDiff structure
-      changedFiles = allSourceFiles
-        .filter(file => {
-          const filePath = file.getFilePath();
-          return !filePath.includes('node_modules');
-        })
-        .map(file => ({
-          path: path.relative(repoPath, file.getFilePath()),
-          status: 'MODIFIED' as const, // Pretend everything is modified so the analyzer checks it
-          changedLines: [], // Empty since we're analyzing all tests
-        }));
-      
-      logger.log(chalk.gray(`Found ${changedFiles.length} test file(s) to analyze.`));
+    for (const test of tests) {
+      logger.log(chalk.white(`"${test.testName}"`) + ` ${getImpactLabel(test.impactType)}` + getImpactOrigin(test));
+      logger.log(chalk.gray('   └── ') + formatImpactChain(test.reasons));
       logger.log();
-      
-    } else {
-      // --- EXISTING LOGIC: GIT ONLY ---
-      // Instantiate GitService and fetch changed files
-      const gitService = new GitService(repoPath);
-      
-      try {
-        changedFiles = await gitService.getChangedFiles(commitSha);
-      } catch (error) {
-        const message = error instanceof Error ? error.message : 'Unknown error';
-        if (options.json) {
-          console.log(JSON.stringify({ files: [], tests: [], grep: "" }));
-          process.exit(1);
-        }
-        logger.error(chalk.red(`✖ Git Error: ${message}`));
-        process.exit(1);
-      }
-      
-      // Exit early if no changes found
-      if (changedFiles.length === 0) {
-        if (options.json) {
-          console.log(JSON.stringify({ files: [], tests: [], grep: "" }));
-          process.exit(0);
-        }
-        logger.log();
-        logger.log(chalk.yellow('⚠ No file changes found between the commit and HEAD.'));
-        logger.log(chalk.gray('This could mean:'));
-        logger.log(chalk.gray('  • The commit SHA is the same as HEAD'));
-        logger.log(chalk.gray('  • All changes have been reverted'));
-        logger.log();
-        process.exit(0);
-      }
-      
-      logger.log(chalk.gray(`Found ${changedFiles.length} changed file(s).`));
-      logger.log();
-    }
-    
-    // Calculate parent commit SHA for REMOVED test detection
-    let parentCommitSha: string | null = null;
-    let activeGitService: GitService | null = null;
-    
-    if (!options.all && options.commit) {
-      activeGitService = new GitService(repoPath);
-      try {
-        parentCommitSha = await activeGitService.getParentCommitSha(options.commit);
-        if (parentCommitSha) {
-          logger.log(chalk.gray(`Parent commit: ${parentCommitSha.substring(0, 8)}...`));
-        }
-      } catch {
-        // No parent commit (initial commit) - continue without REMOVED detection
-        logger.log(chalk.gray('No parent commit found (initial commit or shallow clone).'));
-      }
     }
-    
-    // Instantiate Analyzer and analyze the changes
-    const analyzer = new Analyzer(repoPath);
-    
-    // Safety wrap: Catch AST parsing errors and fall back gracefully
-    let report: AnalysisReport;
-    try {
-      report = await analyzer.analyze(changedFiles, commitSha, parentCommitSha, activeGitService);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      logger.log(chalk.yellow(`⚠ Analysis error: ${errorMessage}`));
-      logger.log(chalk.yellow('⚠ Falling back to File Mode (all changed files will be tested).'));
-      
-      // Fallback: Create a minimal report with just file paths
-      const fallbackResults: FileAnalysisResult[] = changedFiles
-        .filter(f => f.path.endsWith('.spec.ts') || f.path.endsWith('.test.ts'))
-        .map(f => ({
-          filePath: f.path,
-          status: f.status,
-          tests: [],
-          hasDynamicTests: true, // Force file mode
-        }));
-      
-      report = {
-        commitSha,
-        repoPath,
-        fileResults: fallbackResults,
-        totalTestsSelected: 0,
-      };
-    }
-    
-    // Output based on mode
-    if (options.json) {
-      // JSON mode: Output single valid JSON object
-      const jsonOutput = toJsonOutput(report);
-      console.log(JSON.stringify(jsonOutput));
-    } else {
-      // Human-readable mode: Print the colorized report
-      printReport(report);
+  } catch (error) {
+    exitWithError(error);
+  }
+}
+
+/**
+ * Entry point of `graph`: prints the import graph.
+ * Progress goes to stderr, so the graph can be piped to Graphviz or a file.
+ * 
+ * @param graphOptions - The format, and the file to start the subgraph at
+ */
+async function graph(graphOptions: { format?: string; from?: string }): Promise<void> {
+  try {
+    const format = graphOptions.format ?? (options.json ? 'json' : 'dot');
+    if (!isGraphFormat(format)) {
+      exitWithOptionError(`Unknown graph format "${format}" (expected one of: ${GRAPH_FORMATS.join(', ')})`);
     }
     
+    const importGraph = await buildImportGraph({
+      ...getApiOptions(getMode(false)),
+      from: graphOptions.from,
+      logger: {
+        info: message => logger.error(chalk.gray(message)),
+        warn: message => logger.error(chalk.yellow(message)),
+      },
+    });
+    console.log(formatGraph(importGraph, format));
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'An unexpected error occurred';
-    if (options.json) {
-      console.log(JSON.stringify({ files: [], tests: [], grep: "" }));
-      process.exit(1);
+    exitWithError(error);
+  }
+}
+
+/**
+ * Finds the selected tests matching a title: the tests with that full title, else those
+ * whose own title it is, else those whose full title contains it.
+ * 
+ * @param report - The analysis report
+ * @param testTitle - The title to look for
+ * @returns The matching tests
+ */
+function findTestsByTitle(report: AnalysisReport, testTitle: string): ImpactedTest[] {
+  const tests = report.fileResults.flatMap(fileResult => fileResult.tests);
+  const matchers: Array<(test: ImpactedTest) => boolean> = [
+    test => test.testName === testTitle,
+    test => test.titlePath?.[test.titlePath.length - 1] === testTitle,
+    test => test.testName.includes(testTitle),
+  ];
+  
+  for (const matches of matchers) {
+    const matchingTests = tests.filter(matches);
+    if (matchingTests.length > 0) {
+      return matchingTests;
     }
-    logger.error(chalk.red(`✖ Error: ${message}`));
+  }
+  return [];
+}
+
+/**
+ * Formats an impact chain: `helpers/auth.ts:42 → fixtures/login.ts → specs/checkout.spec.ts`.
+ * @param reasons - The chain
+ * @returns The chain, colored
+ */
+function formatImpactChain(reasons: ImpactReason[]): string {
+  return reasons
+    .map((reason, index) => {
+      const link = reason.line !== undefined ? `${reason.file}:${reason.line}` : reason.file;
+      return index === 0 ? chalk.cyan(link) : chalk.white(link);
+    })
+    .join(chalk.gray(' → '));
+}
+
+/**
+ * Prints an error and exits with 1 (the empty JSON output in JSON mode).
+ * @param error - The error thrown by the selection
+ */
+function exitWithError(error: unknown): never {
+  const message = error instanceof Error ? error.message : 'An unexpected error occurred';
+  if (options.json) {
+    console.log(JSON.stringify({ files: [], tests: [], grep: "" }));
     process.exit(1);
   }
+  logger.error(chalk.red(`✖ ${error instanceof GitError ? 'Git Error' : 'Error'}: ${message}`));
+  process.exit(1);
 }
 
 // Run the CLI
-main().catch((error: unknown) => {
+program.parseAsync(process.argv).catch((error: unknown) => {
   const message = error instanceof Error ? error.message : 'An unexpected error occurred';
   if (options.json) {
     console.log(JSON.stringify({ files: [], tests: [], grep: "" }));
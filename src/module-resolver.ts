@@ -0,0 +1,224 @@
+import { Node, Project, SourceFile, SyntaxKind, ts } from 'ts-morph';
+import * as path from 'path';
+
+/** Extensions of the source files analyzed: every TypeScript and JavaScript flavor */
+export const SOURCE_EXTENSIONS = ['ts', 'tsx', 'mts', 'cts', 'js', 'jsx', 'mjs', 'cjs'];
+
+/**
+ * A module specifier found in a source file.
+ */
+export interface ModuleReference {
+  specifier: string;
+  /**
+   * True for `require()` and dynamic `import()` calls. Their results are untyped (or only
+   * structurally typed), so symbol-level analysis cannot follow them to declarations.
+   * The exception is `require()` in JavaScript files, which the compiler binds like an import.
+   */
+  isDynamic: boolean;
+}
+
+/**
+ * The resolved project files a source file depends on.
+ */
+interface ResolvedDependencies {
+  /** Every resolved dependency */
+  all: string[];
+  /** The subset loaded through `require()` or dynamic `import()` */
+  dynamic: string[];
+}
+
+/**
+ * ModuleResolver maps module specifiers to the files they load, using the
+ * TypeScript compiler's own module resolution (`ts.resolveModuleName`).
+ *
+ * This honours everything the compiler does: relative paths, directory `index.ts`
+ * imports, tsconfig `paths` aliases and `baseUrl`, `.js` specifiers pointing at `.ts`
+ * sources, and JavaScript files (the project is created with `allowJs`).
+ * Packages from node_modules are excluded.
+ */
+export class ModuleResolver {
+  private project: Project;
+  private compilerOptions: ts.CompilerOptions;
+  private resolutionCache: ts.ModuleResolutionCache;
+  /** Resolved dependencies per file path, computed once per file */
+  private dependencyCache = new Map<string, ResolvedDependencies>();
+  private getReferences: (filePath: string) => ModuleReference[];
+
+  /**
+   * @param project - The project whose files are resolved
+   * @param getReferences - Returns the module references of a file (e.g. from a cache).
+   *   Defaults to parsing the file in the project
+   */
+  constructor(project: Project, getReferences?: (filePath: string) => ModuleReference[]) {
+    this.project = project;
+    this.getReferences = getReferences ?? (filePath => {
+      const sourceFile = this.project.getSourceFile(filePath);
+      return sourceFile ? this.findModuleReferences(sourceFile) : [];
+    });
+    this.compilerOptions = project.getCompilerOptions();
+    this.resolutionCache = ts.createModuleResolutionCache(
+      project.getFileSystem().getCurrentDirectory(),
+      fileName => fileName,
+      this.compilerOptions
+    );
+  }
+
+  /**
+   * Collects every module specifier a file loads:
+   * - `import ... from '...'` and `import '...'`
+   * - `export ... from '...'` (including `export * from` in barrel files)
+   * - `import x = require('...')`
+   * - `require('...')` calls
+   * - dynamic `import('...')` calls
+   *
+   * Only static string specifiers can be resolved; computed ones are skipped.
+   *
+   * @param sourceFile - The file to inspect
+   * @returns The module references
+   */
+  findModuleReferences(sourceFile: SourceFile): ModuleReference[] {
+    const references: ModuleReference[] = [];
+
+    for (const importDecl of sourceFile.getImportDeclarations()) {
+      references.push({ specifier: importDecl.getModuleSpecifierValue(), isDynamic: false });
+    }
+
+    for (const exportDecl of sourceFile.getExportDeclarations()) {
+      const specifier = exportDecl.getModuleSpecifierValue();
+      if (specifier !== undefined) {
+        references.push({ specifier, isDynamic: false });
+      }
+    }
+
+    for (const importEquals of sourceFile.getDescendantsOfKind(SyntaxKind.ImportEqualsDeclaration)) {
+      const reference = importEquals.getModuleReference();
+      if (Node.isExternalModuleReference(reference)) {
+        const expression = reference.getExpression();
+        if (expression && Node.isStringLiteral(expression)) {
+          references.push({ specifier: expression.getLiteralValue(), isDynamic: false });
+        }
+      }
+    }
+
+    const isJavaScript = /\.(js|jsx|mjs|cjs)$/.test(sourceFile.getFilePath());
+    for (const callExpr of sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+      const expression = callExpr.getExpression();
+      const isRequire = Node.isIdentifier(expression) && expression.getText() === 'require';
+      const isDynamicImport = expression.getKind() === SyntaxKind.ImportKeyword;
+      if (!isRequire && !isDynamicImport) continue;
+
+      const firstArg = callExpr.getArguments()[0];
+      if (firstArg && (Node.isStringLiteral(firstArg) || Node.isNoSubstitutionTemplateLiteral(firstArg))) {
+        references.push({ specifier: firstArg.getLiteralValue(), isDynamic: isDynamicImport || !isJavaScript });
+      }
+    }
+
+    return references;
+  }
+
+  /**
+   * Collects the names a file exports, from its syntax alone
+   * (`export *` re-exports are module references instead).
+   *
+   * @param sourceFile - The file to inspect
+   * @returns The exported names ("default" for default exports)
+   */
+  findExportNames(sourceFile: SourceFile): string[] {
+    const names = new Set<string>();
+
+    for (const statement of sourceFile.getStatements()) {
+      if (Node.isExportDeclaration(statement)) {
+        statement.getNamedExports().forEach(specifier =>
+          names.add(specifier.getAliasNode()?.getText() ?? specifier.getName())
+        );
+      } else if (Node.isExportAssignment(statement)) {
+        names.add(statement.isExportEquals() ? 'export=' : 'default');
+      } else if (Node.isExportable(statement) && statement.hasExportKeyword()) {
+        // The keywords, not isExported(): that asks the type checker
+        if (statement.hasDefaultKeyword()) {
+          names.add('default');
+        } else if (Node.isVariableStatement(statement)) {
+          statement.getDeclarations().forEach(declaration => names.add(declaration.getName()));
+        } else if (Node.hasName(statement)) {
+          names.add(statement.getName());
+        }
+      }
+    }
+
+    return Array.from(names);
+  }
+
+  /**
+   * Resolves a module specifier to a source file path in the project.
+   *
+   * @param specifier - The module specifier (e.g. '../helpers', '@utils/auth')
+   * @param containingFile - The absolute path of the importing file
+   * @returns The absolute resolved path, or null for packages and unresolvable specifiers
+   */
+  resolve(specifier: string, containingFile: string): string | null {
+    const result = ts.resolveModuleName(
+      specifier,
+      containingFile,
+      this.compilerOptions,
+      this.project.getModuleResolutionHost(),
+      this.resolutionCache
+    );
+
+    const resolvedModule = result.resolvedModule;
+    if (!resolvedModule || resolvedModule.isExternalLibraryImport) {
+      return null;
+    }
+
+    return path.resolve(resolvedModule.resolvedFileName);
+  }
+
+  /**
+   * Returns the resolved paths of every project file a source file depends on.
+   *
+   * @param filePath - The absolute path of the file to inspect
+   * @returns Unique absolute paths of the files it imports, re-exports or requires
+   */
+  getDependencies(filePath: string): string[] {
+    return this.getResolvedDependencies(filePath).all;
+  }
+
+  /**
+   * Returns the resolved paths of the project files loaded through `require()` or `import()`.
+   *
+   * @param filePath - The absolute path of the file to inspect
+   * @returns Unique absolute paths of the dynamically loaded files
+   */
+  getDynamicDependencies(filePath: string): string[] {
+    return this.getResolvedDependencies(filePath).dynamic;
+  }
+
+  /**
+   * Resolves all module references of a file.
+   * Results are cached per file, since the BFS asks about the same files repeatedly.
+   *
+   * @param filePath - The absolute path of the file to inspect
+   * @returns The resolved dependencies
+   */
+  private getResolvedDependencies(filePath: string): ResolvedDependencies {
+    const cached = this.dependencyCache.get(filePath);
+    if (cached) {
+      return cached;
+    }
+
+    const all = new Set<string>();
+    const dynamic = new Set<string>();
+    for (const reference of this.getReferences(filePath)) {
+      const resolvedPath = this.resolve(reference.specifier, filePath);
+      if (resolvedPath) {
+        all.add(resolvedPath);
+        if (reference.isDynamic) {
+          dynamic.add(resolvedPath);
+        }
+      }
+    }
+
+    const result = { all: Array.from(all), dynamic: Array.from(dynamic) };
+    this.dependencyCache.set(filePath, result);
+    return result;
+  }
+}
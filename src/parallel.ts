@@ -0,0 +1,95 @@
+import { Worker } from 'worker_threads';
+import * as path from 'path';
+import { FileDiff } from './types';
+import { SourceTreeSpec } from './source-tree';
+import { FrameworkName, FrameworkOptions } from './frameworks';
+import { SmartTestConfig } from './config';
+import { CacheUpdates } from './cache';
+import { ProfileTimings } from './profiler';
+import { ChangedFileAnalysis } from './analyzer';
+
+/** The worker thread's entry file, next to this one (dist/*.js, or src/*.ts under ts-node) */
+const WORKER_FILE = path.join(__dirname, `analysis-worker${path.extname(__filename)}`);
+
+/**
+ * What a worker thread needs to set up its own analyzer over the snapshot.
+ * Everything is sent by structured clone, so it must be plain data.
+ */
+export interface AnalysisWorkerTask {
+  repoPath: string;
+  sourceTree: SourceTreeSpec;
+  framework: FrameworkName;
+  frameworkOptions: FrameworkOptions;
+  config: SmartTestConfig;
+  /** The cache directory to read, or null to parse every file used */
+  cacheDir: string | null;
+  /** The worker's share of the changed files */
+  changedFiles: FileDiff[];
+  prevCommitSha: string | null;
+}
+
+/**
+ * What a worker thread posts back.
+ */
+export interface AnalysisWorkerResult {
+  /** One analysis per changed file of the task, in order */
+  analyses: ChangedFileAnalysis[];
+  /** The cache entries the worker added, for the main thread to save */
+  cacheUpdates: CacheUpdates | null;
+  timings: ProfileTimings;
+}
+
+/**
+ * Analyzes changed files in worker threads.
+ *
+ * The files are dealt out round-robin, and each worker analyzes its share with its own
+ * analyzer over the same snapshot: ts-morph projects can't be shared between threads.
+ *
+ * @param task - The worker setup (everything but the changed files)
+ * @param changedFiles - The changed files to analyze
+ * @param workerCount - The number of worker threads
+ * @returns The analyses of the changed files (in the order given), and each worker's result
+ */
+export async function analyzeInWorkers(
+  task: Omit<AnalysisWorkerTask, 'changedFiles'>,
+  changedFiles: FileDiff[],
+  workerCount: number
+): Promise<{ analyses: ChangedFileAnalysis[]; workerResults: AnalysisWorkerResult[] }> {
+  const shares = Array.from({ length: workerCount }, (_, worker) =>
+    changedFiles.filter((_, index) => index % workerCount === worker)
+  );
+
+  const workerResults = await Promise.all(shares.map(share => runWorker({ ...task, changedFiles: share })));
+
+  // Undo the round-robin deal
+  const analyses: ChangedFileAnalysis[] = [];
+  workerResults.forEach((result, worker) => result.analyses.forEach((analysis, index) => {
+    analyses[worker + index * workerCount] = analysis;
+  }));
+
+  return { analyses, workerResults };
+}
+
+/**
+ * Runs one worker thread to completion.
+ *
+ * @param task - The worker's task
+ * @returns The worker's result
+ * @throws If the worker fails or exits without posting a result
+ */
+function runWorker(task: AnalysisWorkerTask): Promise<AnalysisWorkerResult> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(WORKER_FILE, {
+      workerData: task,
+      // Under ts-node (npm run dev) the worker entry is TypeScript too
+      execArgv: path.extname(WORKER_FILE) === '.ts' ? ['--require', 'ts-node/register'] : undefined,
+    });
+
+    worker.once('message', (result: AnalysisWorkerResult) => {
+      resolve(result);
+      void worker.terminate();
+    });
+    worker.once('error', reject);
+    worker.once('exit', code => reject(new Error(`Analysis worker exited with code ${code}`)));
+  });
+}
@@ -0,0 +1,135 @@
+import { performance } from 'perf_hooks';
+
+/**
+ * The phases of a run:
+ * - git: reading diffs, commits and snapshot files
+ * - parse: parsing files and extracting their imports, exports, fixtures and tests
+ * - graph: building and walking the import graph
+ * - selection: everything else deciding which tests run (symbol impact, hooks, rules, ...)
+ */
+export const PROFILE_PHASES = ['git', 'parse', 'graph', 'selection'] as const;
+
+export type ProfilePhase = typeof PROFILE_PHASES[number];
+
+/** Milliseconds spent per phase */
+export type ProfileTimings = Record<ProfilePhase, number>;
+
+/**
+ * A running measurement. Phases nest (a file is parsed while the graph is walked),
+ * so only the innermost one is charged; a null phase charges nothing.
+ */
+interface ProfileFrame {
+  phase: ProfilePhase | null;
+  startedAt: number;
+}
+
+/**
+ * Profiler sums the time spent in each phase of a run, for --profile.
+ *
+ * Nested measurements are exclusive: time spent parsing a file during the graph walk
+ * counts as parse time only. Measured work must not run concurrently with other
+ * measured work on the same profiler, as the nesting follows the call stack.
+ */
+export class Profiler {
+  private timings: ProfileTimings = { git: 0, parse: 0, graph: 0, selection: 0 };
+  private frames: ProfileFrame[] = [];
+
+  /**
+   * Runs a function, charging its time to a phase.
+   *
+   * @param phase - The phase to charge
+   * @param fn - The work
+   * @returns The function's result
+   */
+  measure<T>(phase: ProfilePhase, fn: () => T): T {
+    this.enter(phase);
+    try {
+      return fn();
+    } finally {
+      this.exit();
+    }
+  }
+
+  /**
+   * Runs an async function, charging its time to a phase.
+   *
+   * @param phase - The phase to charge
+   * @param fn - The work
+   * @returns The function's result
+   */
+  async measureAsync<T>(phase: ProfilePhase, fn: () => Promise<T>): Promise<T> {
+    this.enter(phase);
+    try {
+      return await fn();
+    } finally {
+      this.exit();
+    }
+  }
+
+  /**
+   * Runs an async function whose time is charged elsewhere (waiting for worker threads,
+   * which report their own timings), so the enclosing phase isn't charged for it.
+   *
+   * @param fn - The work
+   * @returns The function's result
+   */
+  async excludeAsync<T>(fn: () => Promise<T>): Promise<T> {
+    this.enter(null);
+    try {
+      return await fn();
+    } finally {
+      this.exit();
+    }
+  }
+
+  /**
+   * Adds the timings measured by another profiler (a worker thread's).
+   * @param timings - The timings to add
+   */
+  add(timings: ProfileTimings): void {
+    for (const phase of PROFILE_PHASES) {
+      this.timings[phase] += timings[phase];
+    }
+  }
+
+  /**
+   * @returns The milliseconds spent per phase so far
+   */
+  getTimings(): ProfileTimings {
+    return { ...this.timings };
+  }
+
+  /**
+   * Pauses the current phase and starts a nested one.
+   * @param phase - The nested phase
+   */
+  private enter(phase: ProfilePhase | null): void {
+    const now = performance.now();
+    this.charge(now);
+    this.frames.push({ phase, startedAt: now });
+  }
+
+  /**
+   * Ends the innermost phase and resumes the one around it.
+   */
+  private exit(): void {
+    const now = performance.now();
+    this.charge(now);
+    this.frames.pop();
+    const outer = this.frames[this.frames.length - 1];
+    if (outer) {
+      outer.startedAt = now;
+    }
+  }
+
+  /**
+   * Charges the time since the innermost phase (re)started to it.
+   * @param now - The current time
+   */
+  private charge(now: number): void {
+    const current = this.frames[this.frames.length - 1];
+    if (current?.phase) {
+      this.timings[current.phase] += now - current.startedAt;
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { GitService } from './git';
+
+/** How many files WorkingTreeSource reads from disk at once */
+const READ_CONCURRENCY = 32;
+
+/**
+ * A read-only snapshot of the repository's files.
+ * The Analyzer reads every file through a SourceTree, so the contents it parses always
+ * match the snapshot the diff was computed against - not whatever happens to be checked out.
+ */
+export interface SourceTree {
+  /**
+   * Lists every file in the snapshot.
+   * @returns Paths relative to the repo root, using forward slashes
+   */
+  listFiles(): Promise<string[]>;
+
+  /**
+   * Reads several files from the snapshot at once.
+   * @param filePaths - Paths relative to the repo root
+   * @returns Map of path to content; files that don't exist in the snapshot are omitted
+   */
+  readFiles(filePaths: string[]): Promise<Map<string, string>>;
+
+  /**
+   * Describes the snapshot, so a worker thread can open the same one (see createSourceTree).
+   * @returns The snapshot's description
+   */
+  describe(): SourceTreeSpec;
+}
+
+/**
+ * A serializable description of a snapshot: a commit, the index or the working tree.
+ */
+export type SourceTreeSpec =
+  | { kind: 'commit'; commitSha: string }
+  | { kind: 'index' }
+  | { kind: 'working-tree' };
+
+/**
+ * Opens the snapshot a SourceTreeSpec describes.
+ *
+ * @param spec - The snapshot's description
+ * @param repoPath - The repository root
+ * @param gitService - The git service to read commits and the index through
+ * @returns The source tree
+ */
+export function createSourceTree(spec: SourceTreeSpec, repoPath: string, gitService: GitService): SourceTree {
+  switch (spec.kind) {
+    case 'commit':
+      return new GitTreeSource(gitService, spec.commitSha);
+    case 'index':
+      return new IndexSource(gitService);
+    default:
+      return new WorkingTreeSource(repoPath, gitService);
+  }
+}
+
+/**
+ * Reads files from a commit's tree via git objects (`git ls-tree` + `git cat-file`).
+ * Used for --commit and range modes, so an old SHA can be analyzed without a checkout.
+ */
+export class GitTreeSource implements SourceTree {
+  constructor(
+    private readonly gitService: GitService,
+    private readonly commitSha: string
+  ) {}
+
+  async listFiles(): Promise<string[]> {
+    return this.gitService.listFiles(this.commitSha);
+  }
+
+  async readFiles(filePaths: string[]): Promise<Map<string, string>> {
+    return this.gitService.getFileContents(this.commitSha, filePaths);
+  }
+
+  describe(): SourceTreeSpec {
+    return { kind: 'commit', commitSha: this.commitSha };
+  }
+}
+
+/**
+ * Reads the staged version of every file from the git index.
+ * Used for --staged mode, where the working tree may contain further unstaged edits.
+ */
+export class IndexSource implements SourceTree {
+  constructor(private readonly gitService: GitService) {}
+
+  async listFiles(): Promise<string[]> {
+    return this.gitService.listFiles(null);
+  }
+
+  async readFiles(filePaths: string[]): Promise<Map<string, string>> {
+    return this.gitService.getFileContents(null, filePaths);
+  }
+
+  describe(): SourceTreeSpec {
+    return { kind: 'index' };
+  }
+}
+
+/**
+ * Reads files straight from disk.
+ * Used for --working-tree and --all modes, where the checkout IS the snapshot.
+ * The snapshot holds the files git lists (tracked, or untracked and not ignored),
+ * so build output and dependencies are left out the way .gitignore says.
+ * Outside a git repository (--all needs none), the directory tree is walked instead.
+ */
+export class WorkingTreeSource implements SourceTree {
+  constructor(
+    private readonly repoPath: string,
+    private readonly gitService: GitService = new GitService(repoPath)
+  ) {}
+
+  async listFiles(): Promise<string[]> {
+    if (await this.gitService.isRepository()) {
+      return this.gitService.listWorkingTreeFiles();
+    }
+
+    const files: string[] = [];
+    await this.walk(this.repoPath, files);
+    return files;
+  }
+
+  /**
+   * Reads the files a few at a time: a whole tree at once would run out of file descriptors (EMFILE).
+   * @throws Error if a file exists but can't be read (permissions, a directory, ...)
+   */
+  async readFiles(filePaths: string[]): Promise<Map<string, string>> {
+    const contents = new Map<string, string>();
+    // The readers share one iterator, each taking the next file as soon as its last read is done
+    const pending = filePaths.values();
+
+    const readNext = async (): Promise<void> => {
+      for (const filePath of pending) {
+        try {
+          contents.set(filePath, await fs.promises.readFile(path.join(this.repoPath, filePath), 'utf8'));
+        } catch (error) {
+          // A deleted file is simply not in the snapshot, like a path that isn't in a git tree
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to read ${filePath}: ${message}`);
+          }
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(READ_CONCURRENCY, filePaths.length) }, readNext));
+    return contents;
+  }
+
+  describe(): SourceTreeSpec {
+    return { kind: 'working-tree' };
+  }
+
+  /**
+   * Recursively collects file paths, skipping node_modules and dot-directories (.git, .cache, ...).
+   *
+   * @param dirPath - The absolute directory to walk
+   * @param files - Accumulator for repo-relative file paths
+   */
+  private async walk(dirPath: string, files: string[]): Promise<void> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+    } catch {
+      // Unreadable directory (permissions) - skip it
+      return;
+    }
+
+    for (const entry of entries) {
+      const entryPath = path.join(dirPath, entry.name);
+
+      if (entry.isDirectory()) {
+        if (entry.name === 'node_modules' || entry.name.startsWith('.')) {
+          continue;
+        }
+        await this.walk(entryPath, files);
+      } else if (entry.isFile()) {
+        files.push(path.relative(this.repoPath, entryPath).replace(/\\/g, '/'));
+      }
+    }
+  }
+}
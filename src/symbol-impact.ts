@@ -0,0 +1,280 @@
+import { ImportDeclaration, Node, SourceFile, Statement } from 'ts-morph';
+import { LineRange } from './types';
+
+/**
+ * SymbolImpactAnalyzer narrows dependency impact from whole files down to declarations.
+ *
+ * Instead of "this helper file changed", it answers "these declarations changed" and
+ * "does this code reference any of them?". References are resolved with the type checker,
+ * so re-exports and barrel `index.ts` files are followed back to the original declaration.
+ */
+export class SymbolImpactAnalyzer {
+  /** Nodes whose impact is tracked by another analysis (e.g. fixture definitions) */
+  private excludedNodes = new Set<Node>();
+
+  /**
+   * Excludes nodes from declaration mapping and reference searches.
+   * Fixture definitions are excluded this way: a change inside one must not mark the
+   * whole `const test = base.extend({...})` declaration (and with it every test) as changed.
+   *
+   * @param nodes - The nodes to exclude
+   */
+  excludeNodes(nodes: Node[]): void {
+    nodes.forEach(node => this.excludedNodes.add(node));
+  }
+
+  /**
+   * Maps changed lines to the top-level declarations they sit in.
+   *
+   * Returns null when the change cannot be attributed to declarations, meaning the
+   * whole file must be treated as changed:
+   * - No line information (--all mode, pure renames)
+   * - Changed side-effect imports, re-exports or top-level side-effect code
+   * - Removed top-level code (a deletion between statements)
+   *
+   * Lines outside every statement (blank lines, comments) or inside excluded nodes
+   * change no declaration.
+   *
+   * @param sourceFile - The changed source file
+   * @param changedSpans - The changed spans: single changed lines, or the two lines around a deletion
+   * @returns The changed declaration nodes, or null for whole-file impact
+   */
+  findChangedDeclarations(sourceFile: SourceFile, changedSpans: LineRange[]): Set<Node> | null {
+    if (changedSpans.length === 0) {
+      return null;
+    }
+
+    const changedDeclarations = new Set<Node>();
+    const isSpanInside = (span: LineRange, startLine: number, endLine: number) =>
+      span.startLine >= startLine && span.endLine <= endLine;
+    const excludedRanges = Array.from(this.excludedNodes)
+      .filter(node => node.getSourceFile() === sourceFile)
+      .map(node => ({ startLine: node.getStartLineNumber(), endLine: node.getEndLineNumber() }));
+    const relevantSpans = changedSpans.filter(span =>
+      !excludedRanges.some(range => isSpanInside(span, range.startLine, range.endLine))
+    );
+
+    for (const span of relevantSpans) {
+      const statement = sourceFile.getStatements().find(candidate =>
+        isSpanInside(span, candidate.getStartLineNumber(), candidate.getEndLineNumber())
+      );
+
+      if (!statement) {
+        // A deletion between statements removed code we can no longer see
+        if (span.endLine > span.startLine) {
+          return null;
+        }
+        continue;
+      }
+
+      const declarations = this.getStatementDeclarations(statement);
+      if (!declarations) {
+        return null;
+      }
+      declarations.forEach(declaration => changedDeclarations.add(declaration));
+    }
+
+    return changedDeclarations;
+  }
+
+  /**
+   * Propagates changes through the given files until nothing new is affected (fixpoint).
+   * A top-level declaration becomes changed when it references a changed declaration,
+   * e.g. `export const loginAs = (u) => login(u)` after `login` changed.
+   *
+   * A top-level side-effect statement (e.g. `registerHooks(login)`) that references a
+   * changed declaration affects everything the file declares. Spec files opt out of this,
+   * since their top-level statements are the tests themselves.
+   *
+   * Iterating to a fixpoint handles both intra-file chains and import cycles.
+   *
+   * @param changedDeclarations - The changed declarations (extended in place)
+   * @param sourceFiles - The files between the change and the tests (including the changed file)
+   * @param includeSideEffects - Whether side-effect statements mark the whole file as changed
+   */
+  propagate(changedDeclarations: Set<Node>, sourceFiles: SourceFile[], includeSideEffects = true): void {
+    let hasChanges = true;
+
+    while (hasChanges) {
+      hasChanges = false;
+
+      for (const sourceFile of sourceFiles) {
+        for (const statement of sourceFile.getStatements()) {
+          const declarations = this.getStatementDeclarations(statement);
+
+          if (declarations) {
+            for (const declaration of declarations) {
+              if (!changedDeclarations.has(declaration) && this.referencesAny(declaration, changedDeclarations)) {
+                changedDeclarations.add(declaration);
+                hasChanges = true;
+              }
+            }
+          } else if (
+            includeSideEffects &&
+            !Node.isImportDeclaration(statement) &&
+            !Node.isExportDeclaration(statement) &&
+            this.referencesAny(statement, changedDeclarations)
+          ) {
+            for (const declaration of this.getAllDeclarations(sourceFile)) {
+              if (!changedDeclarations.has(declaration)) {
+                changedDeclarations.add(declaration);
+                hasChanges = true;
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Checks if any identifier inside a node refers to one of the given declarations.
+   *
+   * Symbols are resolved through import aliases (and therefore through re-exports and
+   * barrel files); the import binding of a name counts too. A reference to a member
+   * (e.g. `loginPage.login()`) counts as a reference to its enclosing top-level declaration
+   * (the `LoginPage` class).
+   *
+   * Excluded nodes and type positions (annotations, type arguments) are skipped:
+   * a reference used only as a type has no effect on what a test does at runtime.
+   *
+   * @param node - The node to search (a test call, a declaration, ...)
+   * @param declarations - The declarations to look for
+   * @returns True if the node references at least one of them
+   */
+  referencesAny(node: Node, declarations: Set<Node>): boolean {
+    if (declarations.size === 0) {
+      return false;
+    }
+
+    if (Node.isIdentifier(node) && this.isReferenceTo(node, declarations)) {
+      return true;
+    }
+
+    // A default import is declared by its import clause, which holds the named imports too
+    if (Node.isImportClause(node)) {
+      const defaultImport = node.getDefaultImport();
+      return defaultImport !== undefined && this.isReferenceTo(defaultImport, declarations);
+    }
+
+    const found = node.forEachDescendant((child, traversal) => {
+      if (this.excludedNodes.has(child) || Node.isTypeNode(child)) {
+        traversal.skip();
+        return undefined;
+      }
+      return Node.isIdentifier(child) && this.isReferenceTo(child, declarations) ? true : undefined;
+    });
+
+    return found === true;
+  }
+
+  /**
+   * Checks if an identifier refers to one of the given declarations, or to a member of one.
+   *
+   * @param identifier - The identifier to resolve
+   * @param declarations - The declarations to look for
+   * @returns True if it resolves into one of them
+   */
+  private isReferenceTo(identifier: Node, declarations: Set<Node>): boolean {
+    const symbol = identifier.getSymbol();
+    if (!symbol) return false;
+
+    // Both the local import binding and the declaration it aliases count as referenced
+    const aliasedSymbol = symbol.isAlias() ? symbol.getAliasedSymbol() : undefined;
+    const symbolDeclarations = [...symbol.getDeclarations(), ...(aliasedSymbol?.getDeclarations() ?? [])];
+
+    for (const declaration of symbolDeclarations) {
+      // An import binding stands for itself: walking up to the import declaration would
+      // make `sub` of `import { add, sub }` a reference to `add`
+      if (this.isImportBinding(declaration)) {
+        if (declarations.has(declaration)) {
+          return true;
+        }
+        continue;
+      }
+
+      // Walk up from members (methods, properties) to the top-level declaration
+      let current: Node | undefined = declaration;
+      while (current && !Node.isSourceFile(current)) {
+        if (declarations.has(current)) {
+          return true;
+        }
+        current = current.getParent();
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Returns the declaration nodes introduced by a top-level statement.
+   *
+   * @param statement - A top-level statement
+   * @returns The declared nodes, or null if the statement is not a declaration
+   */
+  getStatementDeclarations(statement: Statement): Node[] | null {
+    if (Node.isVariableStatement(statement)) {
+      return statement.getDeclarations();
+    }
+
+    // Each name an import binds is a declaration of its own - changing it changes what
+    // that name refers to. Side-effect imports (`import './setup'`) bind nothing and stay
+    // whole-file changes.
+    if (Node.isImportDeclaration(statement)) {
+      const bindings = this.getImportBindings(statement);
+      return bindings.length > 0 ? bindings : null;
+    }
+
+    if (
+      Node.isFunctionDeclaration(statement) ||
+      Node.isClassDeclaration(statement) ||
+      Node.isInterfaceDeclaration(statement) ||
+      Node.isTypeAliasDeclaration(statement) ||
+      Node.isEnumDeclaration(statement) ||
+      Node.isModuleDeclaration(statement) ||
+      // `export default <expr>` - default imports resolve to this node
+      Node.isExportAssignment(statement)
+    ) {
+      return [statement];
+    }
+
+    return null;
+  }
+
+  /**
+   * Returns the nodes declaring the names an import binds: the import clause for the
+   * default import, the namespace import, and each named import specifier.
+   * These are the declarations the symbols of the bound names point to.
+   *
+   * @param importDeclaration - The import declaration
+   * @returns The binding nodes (none for side-effect imports)
+   */
+  private getImportBindings(importDeclaration: ImportDeclaration): Node[] {
+    const importClause = importDeclaration.getImportClause();
+    if (!importClause) return [];
+
+    const namespaceImport = importClause.getNamedBindings();
+    return [
+      ...(importClause.getDefaultImport() ? [importClause] : []),
+      ...(Node.isNamespaceImport(namespaceImport) ? [namespaceImport] : []),
+      ...importClause.getNamedImports(),
+    ];
+  }
+
+  /**
+   * Checks if a node declares a name bound by an import (see getImportBindings).
+   * @param node - The node to check
+   * @returns True for import clauses, namespace imports and import specifiers
+   */
+  private isImportBinding(node: Node): boolean {
+    return Node.isImportClause(node) || Node.isNamespaceImport(node) || Node.isImportSpecifier(node);
+  }
+
+  /**
+   * Collects every top-level declaration of a file.
+   * @param sourceFile - The file to collect from
+   * @returns All declaration nodes
+   */
+  getAllDeclarations(sourceFile: SourceFile): Node[] {
+    return sourceFile.getStatements().flatMap(statement => this.getStatementDeclarations(statement) ?? []);
+  }
+}
@@ -0,0 +1,178 @@
+import { Node, Symbol } from 'ts-morph';
+import { FrameworkAdapter } from './frameworks';
+
+/**
+ * TestCalleeResolver finds the framework function a test-framework call goes through,
+ * so custom wrappers are classified like the framework's own functions.
+ *
+ * Resolved callees:
+ * - Imports and re-exports of the framework's API, renamed or not
+ *   (`import { test as it } from '@playwright/test'`, `export { test } from '@playwright/test'`)
+ * - Variables initialized from it, through `extend` chains
+ *   (`export const authTest = base.extend<AuthFixtures>({...})`, `const smoke = authTest`)
+ * - Namespace imports (`import * as pw from '@playwright/test'; pw.test(...)`)
+ * - CommonJS destructuring (`const { test: it } = require('@playwright/test')`)
+ *
+ * Module resolution is done by the type checker, so wrappers defined in other files,
+ * behind barrel files or tsconfig path aliases are followed too.
+ */
+export class TestCalleeResolver {
+  private framework: FrameworkAdapter;
+
+  /**
+   * @param framework - The framework whose exports test calls resolve to
+   */
+  constructor(framework: FrameworkAdapter) {
+    this.framework = framework;
+  }
+
+  /**
+   * Rewrites a callee to the framework's own names: `apiTest.describe` becomes
+   * `['test', 'describe']` when `apiTest` is made from Playwright's `test`.
+   *
+   * @param callee - The callee expression of a call
+   * @returns The callee path with its root resolved, or undefined if it doesn't come from the framework
+   */
+  resolve(callee: Node): string[] | undefined {
+    const parts: string[] = [];
+    let root: Node = callee;
+
+    while (Node.isPropertyAccessExpression(root)) {
+      parts.unshift(root.getName());
+      root = root.getExpression();
+    }
+
+    if (!Node.isIdentifier(root)) {
+      return undefined;
+    }
+
+    // pw.test.describe: the namespace itself names nothing, its first member is the export
+    const namespaceModule = this.getNamespaceImportModule(root);
+    if (namespaceModule !== undefined) {
+      return this.framework.modules.includes(namespaceModule) && parts.length > 0 ? parts : undefined;
+    }
+
+    const rootName = this.resolveExpression(root, new Set());
+    return rootName ? [rootName, ...parts] : undefined;
+  }
+
+  /**
+   * Resolves an expression to the name of the framework export it evaluates to.
+   *
+   * @param expression - The expression
+   * @param visited - Declarations already followed (stops on cycles)
+   * @returns The export name, or undefined
+   */
+  private resolveExpression(expression: Node, visited: Set<Node>): string | undefined {
+    if (
+      Node.isParenthesizedExpression(expression) ||
+      Node.isAsExpression(expression) ||
+      Node.isNonNullExpression(expression) ||
+      Node.isSatisfiesExpression(expression)
+    ) {
+      return this.resolveExpression(expression.getExpression(), visited);
+    }
+
+    // base.extend({...}) returns a test function with more fixtures
+    if (Node.isCallExpression(expression)) {
+      const callee = expression.getExpression();
+      return Node.isPropertyAccessExpression(callee) && callee.getName() === 'extend'
+        ? this.resolveExpression(callee.getExpression(), visited)
+        : undefined;
+    }
+
+    if (Node.isIdentifier(expression)) {
+      const symbol = expression.getSymbol();
+      return symbol ? this.resolveSymbol(symbol, visited) : undefined;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Resolves a symbol through its declarations, then through the alias it re-exports or imports.
+   *
+   * @param symbol - The symbol
+   * @param visited - Declarations already followed
+   * @returns The export name, or undefined
+   */
+  private resolveSymbol(symbol: Symbol, visited: Set<Node>): string | undefined {
+    for (const declaration of symbol.getDeclarations()) {
+      if (visited.has(declaration)) continue;
+      visited.add(declaration);
+
+      const name = this.resolveDeclaration(declaration, visited);
+      if (name) {
+        return name;
+      }
+    }
+
+    // An import or re-export of another project file: follow it one hop at a time,
+    // so a chain ending in the framework module (outside the project) is still recognized
+    const aliased = symbol.isAlias() ? symbol.getImmediatelyAliasedSymbol() : undefined;
+    return aliased && aliased !== symbol ? this.resolveSymbol(aliased, visited) : undefined;
+  }
+
+  /**
+   * Resolves one declaration of a symbol.
+   *
+   * @param declaration - The declaration
+   * @param visited - Declarations already followed
+   * @returns The export name, or undefined
+   */
+  private resolveDeclaration(declaration: Node, visited: Set<Node>): string | undefined {
+    // import { test as base } from '@playwright/test'
+    if (Node.isImportSpecifier(declaration)) {
+      const moduleName = declaration.getImportDeclaration().getModuleSpecifierValue();
+      return this.framework.modules.includes(moduleName) ? declaration.getName() : undefined;
+    }
+
+    // import test from 'node:test'
+    if (Node.isImportClause(declaration)) {
+      const moduleName = declaration.getFirstAncestor(Node.isImportDeclaration)?.getModuleSpecifierValue();
+      return moduleName && this.framework.modules.includes(moduleName) ? this.framework.defaultExportName : undefined;
+    }
+
+    // export { test } from '@playwright/test'
+    if (Node.isExportSpecifier(declaration)) {
+      const moduleName = declaration.getExportDeclaration().getModuleSpecifierValue();
+      return moduleName && this.framework.modules.includes(moduleName) ? declaration.getName() : undefined;
+    }
+
+    // const { test } = require('@playwright/test')
+    if (Node.isBindingElement(declaration)) {
+      const variable = declaration.getFirstAncestor(Node.isVariableDeclaration);
+      const initializer = variable?.getInitializer();
+      const moduleName = Node.isCallExpression(initializer) && initializer.getExpression().getText() === 'require'
+        ? initializer.getArguments()[0]
+        : undefined;
+      return Node.isStringLiteral(moduleName) && this.framework.modules.includes(moduleName.getLiteralValue())
+        ? declaration.getPropertyNameNode()?.getText() ?? declaration.getName()
+        : undefined;
+    }
+
+    // export const authTest = base.extend(...)
+    if (Node.isVariableDeclaration(declaration)) {
+      const initializer = declaration.getInitializer();
+      return initializer ? this.resolveExpression(initializer, visited) : undefined;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Returns the module an identifier is a namespace import of.
+   *
+   * @param identifier - The identifier
+   * @returns The module specifier, or undefined if the identifier is not a namespace import
+   */
+  private getNamespaceImportModule(identifier: Node): string | undefined {
+    const declaration = identifier.getSymbol()?.getDeclarations()[0];
+    if (!Node.isNamespaceImport(declaration)) {
+      return undefined;
+    }
+
+    const importDeclaration = declaration.getFirstAncestor(Node.isImportDeclaration);
+    return importDeclaration?.getModuleSpecifierValue();
+  }
+}
@@ -0,0 +1,121 @@
+import { TestBlockInfo } from './test-tree';
+
+/**
+ * A test that disappeared from, or appeared in, a spec file in the analyzed change.
+ */
+export interface TestCandidate {
+  /** The spec file path, relative to the repo root */
+  filePath: string;
+  /** The spec file's path before the change, if it was renamed */
+  oldFilePath?: string;
+  /** The test's title and body (all that matching needs, so candidates can cross worker threads) */
+  test: Pick<TestBlockInfo, 'name' | 'body'>;
+}
+
+/**
+ * A removed test paired with the added test it became.
+ */
+export interface TestMatch {
+  removed: TestCandidate;
+  added: TestCandidate;
+  /** Body similarity between 0 and 1 */
+  similarity: number;
+}
+
+/** Minimum body similarity for a removed and an added test to count as the same test */
+const SIMILARITY_THRESHOLD = 0.8;
+
+/**
+ * TestMatcher pairs removed tests with added tests by comparing their bodies.
+ *
+ * Why bodies: a renamed test keeps its code but not its title, and a test moved to
+ * another spec keeps both its code and (usually) its title - but its old file no
+ * longer has it. Matching by name alone reports both as a lost test plus a new one.
+ */
+export class TestMatcher {
+  /**
+   * Pairs removed and added tests one-to-one.
+   *
+   * Algorithm:
+   * 1. Score every removed/added pair by body similarity
+   * 2. Drop pairs below the threshold
+   * 3. Greedily accept the best pairs first, preferring pairs within the same file on ties
+   *
+   * @param removed - Tests that no longer exist under their old name and file
+   * @param added - Tests that didn't exist under their new name and file
+   * @returns The accepted matches
+   */
+  match(removed: TestCandidate[], added: TestCandidate[]): TestMatch[] {
+    const pairs: TestMatch[] = [];
+
+    for (const removedCandidate of removed) {
+      for (const addedCandidate of added) {
+        const similarity = this.getSimilarity(removedCandidate.test.body, addedCandidate.test.body);
+        if (similarity >= SIMILARITY_THRESHOLD) {
+          pairs.push({ removed: removedCandidate, added: addedCandidate, similarity });
+        }
+      }
+    }
+
+    pairs.sort((a, b) =>
+      b.similarity - a.similarity ||
+      Number(b.removed.filePath === b.added.filePath) - Number(a.removed.filePath === a.added.filePath)
+    );
+
+    const matches: TestMatch[] = [];
+    const usedRemoved = new Set<TestCandidate>();
+    const usedAdded = new Set<TestCandidate>();
+
+    for (const pair of pairs) {
+      if (usedRemoved.has(pair.removed) || usedAdded.has(pair.added)) continue;
+      usedRemoved.add(pair.removed);
+      usedAdded.add(pair.added);
+      matches.push(pair);
+    }
+
+    return matches;
+  }
+
+  /**
+   * Scores how similar two test bodies are, ignoring formatting.
+   * Uses the Dice coefficient over the token multisets: 2 * |A ∩ B| / (|A| + |B|).
+   *
+   * @param oldBody - The removed test's body
+   * @param newBody - The added test's body
+   * @returns The similarity between 0 and 1 (0 for empty bodies, which prove nothing)
+   */
+  getSimilarity(oldBody: string, newBody: string): number {
+    const oldTokens = this.tokenize(oldBody);
+    const newTokens = this.tokenize(newBody);
+    if (oldTokens.length === 0 || newTokens.length === 0) {
+      return 0;
+    }
+
+    const remaining = new Map<string, number>();
+    for (const token of oldTokens) {
+      remaining.set(token, (remaining.get(token) ?? 0) + 1);
+    }
+
+    let common = 0;
+    for (const token of newTokens) {
+      const count = remaining.get(token) ?? 0;
+      if (count > 0) {
+        remaining.set(token, count - 1);
+        common++;
+      }
+    }
+
+    return (2 * common) / (oldTokens.length + newTokens.length);
+  }
+
+  /**
+   * Splits code into identifier, number, string and punctuation tokens.
+   * Braces alone don't make two bodies similar, so they are left out.
+   *
+   * @param code - The code to split
+   * @returns The tokens
+   */
+  private tokenize(code: string): string[] {
+    return code.match(/'[^']*'|"[^"]*"|`[^`]*`|\w+|[^\s\w{}]/g) ?? [];
+  }
+}
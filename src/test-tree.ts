@@ -0,0 +1,732 @@
+import { CallExpression, Node, SourceFile, Statement, SyntaxKind, TemplateLiteral } from 'ts-morph';
+import { Bindings, ConstantEvaluator, StaticValue } from './constant-evaluator';
+import { createFrameworkAdapter, FrameworkAdapter, TestCallKind } from './frameworks';
+import { TestCalleeResolver } from './test-callee-resolver';
+
+/**
+ * Represents extracted test block information including dynamic detection.
+ */
+export interface TestBlockInfo {
+  /** The full title, describe titles included: "Suite > Sub > test" */
+  name: string;
+  /** The describe titles followed by the test title */
+  titlePath: string[];
+  startLine: number;
+  endLine: number;
+  /**
+   * True if the test name (or an enclosing describe name) uses template literals
+   * with variables (${...}). These cannot be safely grepped and require File Mode.
+   */
+  isDynamic: boolean;
+  /** The source text of the test's callback body, for matching renamed and moved tests */
+  body: string;
+  /** The test call expression (only valid while its source file is in the project) */
+  node: Node;
+  /**
+   * For parameterized tests: the expressions the test was generated from (loop iterables,
+   * `forEach` arrays, `each` tables). Changing one changes the generated tests.
+   */
+  parameterSources: Node[];
+  /** Tags of the test and its describes: `@tag` words in titles and `{ tag }` options */
+  tags: string[];
+}
+
+/**
+ * A hook (`beforeEach`, `afterAll`, ...) or a scope configuration call
+ * (`test.use(...)`, `test.describe.configure(...)`, `test.skip()`, ...).
+ * Both affect every test in the suite they are declared in.
+ */
+export interface ScopeBlockInfo {
+  kind: 'hook' | 'config';
+  /** The callee text, e.g. "test.beforeEach" or "test.use" */
+  name: string;
+  startLine: number;
+  endLine: number;
+  node: Node;
+}
+
+/**
+ * A describe block, or the file itself (the root suite, with an empty title path).
+ */
+export interface SuiteBlockInfo {
+  /** The describe titles down to and including this one */
+  titlePath: string[];
+  startLine: number;
+  endLine: number;
+  /** The last line of the describe header (title and options), before the callback body */
+  headerEndLine: number;
+  isDynamic: boolean;
+  /** Tags of the describe and its parents, inherited by its tests */
+  tags: string[];
+  /** The describe call expression, or the source file for the root suite */
+  node: Node;
+  tests: TestBlockInfo[];
+  suites: SuiteBlockInfo[];
+  scopeBlocks: ScopeBlockInfo[];
+}
+
+/**
+ * The parameterized-test context of a node: the values bound for the current iteration,
+ * and the expressions (loop iterables, `each` tables) they came from.
+ */
+interface ExpansionScope {
+  bindings: Bindings;
+  parameterSources: Node[];
+}
+
+/** The scope outside of every loop */
+const EMPTY_SCOPE: ExpansionScope = { bindings: new Map(), parameterSources: [] };
+
+/** Title separator used for reporting full test titles */
+export const TITLE_SEPARATOR = ' > ';
+
+/**
+ * TestTreeBuilder turns a spec file into a tree of describe blocks, tests and hooks.
+ *
+ * Why a tree: describe names are not tests, a test's full title includes its describe
+ * titles, and a hook or `test.use(...)` applies to every test in its describe scope.
+ *
+ * Parameterized tests are unrolled into one test per generated title:
+ * - `for (const user of USERS) { test(`... ${user.name}`, ...) }`
+ * - `USERS.forEach((user, index) => { test(...) })`
+ * - `test.each(table)('add %i + %i', (a, b) => ...)` and `describe.each` (Jest/Vitest)
+ * The iterated array must be static (see ConstantEvaluator); otherwise the test is
+ * kept once, with a dynamic name.
+ */
+export class TestTreeBuilder {
+  private constantEvaluator = new ConstantEvaluator();
+  private framework: FrameworkAdapter;
+  private calleeResolver: TestCalleeResolver;
+
+  /**
+   * @param framework - The test framework whose calls declare tests, suites and hooks
+   */
+  constructor(framework: FrameworkAdapter = createFrameworkAdapter('playwright')) {
+    this.framework = framework;
+    this.calleeResolver = new TestCalleeResolver(framework);
+  }
+
+  /**
+   * Builds the suite tree of a source file.
+   *
+   * Tests are leaves: their bodies are not searched (so `test.step()` calls inside
+   * tests are not tests). Any other code (loops, conditionals, helper functions) is
+   * searched for nested test calls.
+   *
+   * @param sourceFile - The ts-morph SourceFile to analyze
+   * @returns The root suite of the file
+   */
+  build(sourceFile: SourceFile): SuiteBlockInfo {
+    const root: SuiteBlockInfo = {
+      titlePath: [],
+      startLine: 1,
+      endLine: sourceFile.getEndLineNumber(),
+      headerEndLine: 0,
+      isDynamic: false,
+      tags: [],
+      node: sourceFile,
+      tests: [],
+      suites: [],
+      scopeBlocks: [],
+    };
+
+    sourceFile.forEachChild(child => this.visit(child, root));
+    return root;
+  }
+
+  /**
+   * Flattens a suite into its tests, nested suites included.
+   *
+   * @param suite - The suite to flatten
+   * @returns Every test in the suite
+   */
+  getAllTests(suite: SuiteBlockInfo): TestBlockInfo[] {
+    return [...suite.tests, ...suite.suites.flatMap(child => this.getAllTests(child))];
+  }
+
+  /**
+   * Flattens a suite into every suite it contains, itself included.
+   *
+   * @param suite - The suite to flatten
+   * @returns The suite and all nested suites
+   */
+  getAllSuites(suite: SuiteBlockInfo): SuiteBlockInfo[] {
+    return [suite, ...suite.suites.flatMap(child => this.getAllSuites(child))];
+  }
+
+  /**
+   * Returns the statements directly in a suite's body: the file's top-level statements
+   * for the root suite, or the statements of a describe callback.
+   *
+   * @param suite - The suite
+   * @returns The body statements ([] for an expression-bodied callback)
+   */
+  getSuiteStatements(suite: SuiteBlockInfo): Statement[] {
+    if (Node.isSourceFile(suite.node)) {
+      return suite.node.getStatements();
+    }
+
+    const callback = Node.isCallExpression(suite.node) ? this.getCallback(suite.node) : undefined;
+    const body = callback && (Node.isArrowFunction(callback) || Node.isFunctionExpression(callback))
+      ? callback.getBody()
+      : undefined;
+    return body && Node.isBlock(body) ? body.getStatements() : [];
+  }
+
+  /**
+   * Visits a node, attaching any test-framework calls to the current suite.
+   *
+   * @param node - The node to visit
+   * @param suite - The suite the node belongs to
+   * @param scope - The loop bindings in effect
+   */
+  private visit(node: Node, suite: SuiteBlockInfo, scope: ExpansionScope = EMPTY_SCOPE): void {
+    if (Node.isForOfStatement(node)) {
+      const iterations = this.getForOfIterations(node, scope);
+      if (iterations) {
+        iterations.forEach(iteration => this.visit(node.getStatement(), suite, iteration));
+        return;
+      }
+    }
+
+    if (Node.isCallExpression(node)) {
+      if (this.visitForEachCall(node, suite, scope) || this.visitEachCall(node, suite, scope)) {
+        return;
+      }
+
+      const kind = this.classifyCall(node);
+
+      if (kind === 'describe') {
+        const title = this.getTestName(node.getArguments(), scope.bindings);
+        suite.suites.push(this.buildSuite(node, suite, title, scope));
+        return;
+      }
+
+      if (kind === 'test') {
+        const title = this.getTestName(node.getArguments(), scope.bindings);
+        if (title) {
+          this.addTest(node, suite, title, scope);
+        }
+        return;
+      }
+
+      if (kind === 'hook' || kind === 'config') {
+        suite.scopeBlocks.push({
+          kind,
+          name: node.getExpression().getText(),
+          startLine: node.getStartLineNumber(),
+          endLine: node.getEndLineNumber(),
+          node,
+        });
+        return;
+      }
+    }
+
+    node.forEachChild(child => this.visit(child, suite, scope));
+  }
+
+  /**
+   * Adds a test to a suite.
+   *
+   * @param callExpr - The test call
+   * @param suite - The enclosing suite
+   * @param title - The test's own title
+   * @param scope - The loop bindings the test was generated with
+   */
+  private addTest(
+    callExpr: CallExpression,
+    suite: SuiteBlockInfo,
+    title: { name: string; isDynamic: boolean },
+    scope: ExpansionScope
+  ): void {
+    const titlePath = [...suite.titlePath, title.name];
+    suite.tests.push({
+      name: titlePath.join(TITLE_SEPARATOR),
+      titlePath,
+      startLine: callExpr.getStartLineNumber(),
+      endLine: callExpr.getEndLineNumber(),
+      isDynamic: suite.isDynamic || title.isDynamic,
+      body: this.getCallbackBody(callExpr),
+      node: callExpr,
+      parameterSources: scope.parameterSources,
+      tags: this.getTags(callExpr, title.name, suite.tags, scope.bindings),
+    });
+  }
+
+  /**
+   * Builds the suite of a describe call, visiting its callback body.
+   *
+   * @param callExpr - The describe call
+   * @param parent - The enclosing suite
+   * @param title - The describe's own title (undefined for anonymous describes)
+   * @param scope - The loop bindings the describe was generated with
+   * @returns The describe's suite
+   */
+  private buildSuite(
+    callExpr: CallExpression,
+    parent: SuiteBlockInfo,
+    title: { name: string; isDynamic: boolean } | undefined,
+    scope: ExpansionScope
+  ): SuiteBlockInfo {
+    const callback = this.getCallback(callExpr);
+
+    const suite: SuiteBlockInfo = {
+      titlePath: title ? [...parent.titlePath, title.name] : [...parent.titlePath],
+      startLine: callExpr.getStartLineNumber(),
+      endLine: callExpr.getEndLineNumber(),
+      headerEndLine: callback ? callback.getStartLineNumber() : callExpr.getEndLineNumber(),
+      isDynamic: parent.isDynamic || Boolean(title?.isDynamic),
+      tags: this.getTags(callExpr, title?.name ?? '', parent.tags, scope.bindings),
+      node: callExpr,
+      tests: [],
+      suites: [],
+      scopeBlocks: [],
+    };
+
+    if (callback) {
+      callback.forEachChild(child => this.visit(child, suite, scope));
+    }
+
+    return suite;
+  }
+
+  /**
+   * Unrolls `for (const item of ARRAY)` over a static array.
+   *
+   * @param forOf - The for-of statement
+   * @param scope - The enclosing loop bindings
+   * @returns One scope per element, or undefined if the loop can't be unrolled
+   */
+  private getForOfIterations(forOf: Node, scope: ExpansionScope): ExpansionScope[] | undefined {
+    if (!Node.isForOfStatement(forOf)) {
+      return undefined;
+    }
+
+    const initializer = forOf.getInitializer();
+    const declaration = Node.isVariableDeclarationList(initializer) ? initializer.getDeclarations()[0] : undefined;
+    const values = this.constantEvaluator.evaluateStatic(forOf.getExpression(), scope.bindings);
+    if (!declaration || !Array.isArray(values)) {
+      return undefined;
+    }
+
+    const parameterSources = [...scope.parameterSources, forOf.getExpression()];
+    const iterations: ExpansionScope[] = [];
+
+    for (const value of values) {
+      const bindings = new Map(scope.bindings);
+      if (!this.bind(declaration.getNameNode(), declaration, value, bindings)) {
+        return undefined;
+      }
+      iterations.push({ bindings, parameterSources });
+    }
+
+    return iterations;
+  }
+
+  /**
+   * Unrolls `ARRAY.forEach((item, index) => { ... })` over a static array.
+   *
+   * @param callExpr - The call to inspect
+   * @param suite - The enclosing suite
+   * @param scope - The enclosing loop bindings
+   * @returns True if the call was a static forEach and its callback was visited
+   */
+  private visitForEachCall(callExpr: CallExpression, suite: SuiteBlockInfo, scope: ExpansionScope): boolean {
+    const callee = callExpr.getExpression();
+    const callback = callExpr.getArguments()[0];
+    if (
+      !Node.isPropertyAccessExpression(callee) ||
+      callee.getName() !== 'forEach' ||
+      !callback ||
+      !(Node.isArrowFunction(callback) || Node.isFunctionExpression(callback))
+    ) {
+      return false;
+    }
+
+    const values = this.constantEvaluator.evaluateStatic(callee.getExpression(), scope.bindings);
+    if (!Array.isArray(values)) {
+      return false;
+    }
+
+    const parameterSources = [...scope.parameterSources, callee.getExpression()];
+    const [itemParam, indexParam] = callback.getParameters();
+    const iterations: ExpansionScope[] = [];
+
+    for (const [index, value] of values.entries()) {
+      const bindings = new Map(scope.bindings);
+      if (itemParam && !this.bind(itemParam.getNameNode(), itemParam, value, bindings)) {
+        return false;
+      }
+      if (indexParam && !this.bind(indexParam.getNameNode(), indexParam, index, bindings)) {
+        return false;
+      }
+      iterations.push({ bindings, parameterSources });
+    }
+
+    iterations.forEach(iteration => this.visit(callback.getBody(), suite, iteration));
+    return true;
+  }
+
+  /**
+   * Unrolls Jest/Vitest-style `test.each(table)(title, fn)` and `describe.each(table)(title, fn)`,
+   * and their tagged-template tables (`test.each\`a | b ${1} | ${2}\`(title, fn)`, see
+   * evaluateTemplateTable). Each row's values are bound to the callback's parameters (array
+   * rows are spread), and the title is formatted from the row (see formatEachTitle).
+   *
+   * A table or title that isn't static yields a single entry with a dynamic name.
+   *
+   * @param callExpr - The call to inspect
+   * @param suite - The enclosing suite
+   * @param scope - The enclosing loop bindings
+   * @returns True if the call was an `each` call and was handled
+   */
+  private visitEachCall(callExpr: CallExpression, suite: SuiteBlockInfo, scope: ExpansionScope): boolean {
+    const eachCall = callExpr.getExpression();
+    if (!Node.isCallExpression(eachCall) && !Node.isTaggedTemplateExpression(eachCall)) {
+      return false;
+    }
+    const eachCallee = Node.isCallExpression(eachCall) ? eachCall.getExpression() : eachCall.getTag();
+    if (!Node.isPropertyAccessExpression(eachCallee) || eachCallee.getName() !== 'each') {
+      return false;
+    }
+
+    const kind = this.getEachKind(eachCallee.getExpression());
+    if (!kind) {
+      return false;
+    }
+
+    const tableNode = Node.isTaggedTemplateExpression(eachCall) ? eachCall.getTemplate() : eachCall.getArguments()[0];
+    const titleNode = callExpr.getArguments()[0];
+    const table = Node.isTaggedTemplateExpression(eachCall)
+      ? this.evaluateTemplateTable(eachCall.getTemplate(), scope.bindings)
+      : tableNode ? this.constantEvaluator.evaluateStatic(tableNode, scope.bindings) : undefined;
+    const titleTemplate = titleNode ? this.constantEvaluator.evaluate(titleNode, scope.bindings) : undefined;
+    const callback = this.getCallback(callExpr);
+    const parameters = callback && (Node.isArrowFunction(callback) || Node.isFunctionExpression(callback))
+      ? callback.getParameters()
+      : [];
+
+    const rows: { title: string; scope: ExpansionScope }[] = [];
+    if (Array.isArray(table) && typeof titleTemplate === 'string') {
+      const parameterSources = tableNode ? [...scope.parameterSources, tableNode] : scope.parameterSources;
+
+      for (const [index, row] of table.entries()) {
+        const bindings = new Map(scope.bindings);
+        const args = Array.isArray(row) ? row : [row];
+        const isBound = parameters.every((parameter, i) =>
+          i >= args.length || this.bind(parameter.getNameNode(), parameter, args[i], bindings)
+        );
+        if (!isBound) {
+          rows.length = 0;
+          break;
+        }
+        rows.push({ title: this.formatEachTitle(titleTemplate, row, index), scope: { bindings, parameterSources } });
+      }
+    }
+
+    if (rows.length === 0) {
+      // Not unrollable: keep a single entry, named after the raw title
+      const title = { name: `[dynamic: ${titleNode?.getText() ?? ''}]`, isDynamic: true };
+      if (kind === 'test') {
+        this.addTest(callExpr, suite, title, scope);
+      } else {
+        suite.suites.push(this.buildSuite(callExpr, suite, title, scope));
+      }
+      return true;
+    }
+
+    for (const row of rows) {
+      const title = { name: row.title, isDynamic: false };
+      if (kind === 'test') {
+        this.addTest(callExpr, suite, title, row.scope);
+      } else {
+        suite.suites.push(this.buildSuite(callExpr, suite, title, row.scope));
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Evaluates a tagged-template `each` table the way Jest reads it: the first line holds
+   * the `|`-separated column names, and the `${value}` cells that follow fill the rows in
+   * order. Each row becomes an object keyed by the column names (titles use `$name`).
+   *
+   * @param template - The template literal of the table
+   * @param bindings - The enclosing loop bindings
+   * @returns The rows, or undefined if a cell isn't static or the cells don't fill the rows
+   */
+  private evaluateTemplateTable(template: TemplateLiteral, bindings: Bindings): StaticValue[] | undefined {
+    if (!Node.isTemplateExpression(template)) {
+      return undefined;
+    }
+
+    const headings = template.getHead().getLiteralText().replace(/\s/g, '').split('|');
+    const cells = template.getTemplateSpans().map(span => this.constantEvaluator.evaluateStatic(span.getExpression(), bindings));
+    if (headings.some(heading => heading === '') || cells.length % headings.length !== 0) {
+      return undefined;
+    }
+
+    const rows: StaticValue[] = [];
+    for (let start = 0; start < cells.length; start += headings.length) {
+      const row: { [key: string]: StaticValue } = {};
+      for (const [column, heading] of headings.entries()) {
+        const cell = cells[start + column];
+        if (cell === undefined) {
+          return undefined;
+        }
+        row[heading] = cell;
+      }
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  /**
+   * Classifies the callee of an `each` call: a test or a describe callee, with modifiers.
+   *
+   * @param callee - The expression before `.each`, e.g. `test.only` or `describe`
+   * @returns The kind of the generated entries, or null for other calls
+   */
+  private getEachKind(callee: Node): 'test' | 'describe' | null {
+    const kind = this.framework.classifyCall(callee.getText().split('.'), true)
+      ?? this.framework.classifyCall(this.calleeResolver.resolve(callee) ?? [], true);
+    return kind === 'test' || kind === 'describe' ? kind : null;
+  }
+
+  /**
+   * Formats an `each` title for one table row, the way Jest does:
+   * - Object rows: `$name` and `$user.name` interpolate row properties, `$#` the row index
+   * - Other rows: printf placeholders (`%s`, `%d`, `%i`, `%f`, `%j`, `%p`, `%o`) take the
+   *   row values in order, `%#` is the row index and `%%` a literal percent sign
+   *
+   * @param template - The title template
+   * @param row - The table row
+   * @param index - The row index
+   * @returns The formatted title
+   */
+  private formatEachTitle(template: string, row: StaticValue, index: number): string {
+    if (typeof row === 'object' && !Array.isArray(row)) {
+      return template.replace(/\$(#|[A-Za-z_$][\w$]*(?:\.[\w$]+)*)/g, (match, keyPath: string) => {
+        if (keyPath === '#') return String(index);
+        let value: StaticValue | undefined = row;
+        for (const key of keyPath.split('.')) {
+          value = value !== undefined && typeof value === 'object' && !Array.isArray(value) ? value[key] : undefined;
+        }
+        return value === undefined ? match : this.formatPretty(value);
+      });
+    }
+
+    const args = Array.isArray(row) ? row : [row];
+    let argIndex = 0;
+
+    return template.replace(/%([sdifjopO#%])/g, (match, flag: string) => {
+      if (flag === '%') return '%';
+      if (flag === '#') return String(index);
+      if (argIndex >= args.length) return match;
+
+      const arg = args[argIndex++] as StaticValue;
+      switch (flag) {
+        case 's':
+          return typeof arg === 'object' ? JSON.stringify(arg) : String(arg);
+        case 'd':
+        case 'i':
+          return String(Math.trunc(Number(arg)));
+        case 'f':
+          return String(Number(arg));
+        case 'j':
+          return JSON.stringify(arg);
+        default:
+          return this.formatPretty(arg);
+      }
+    });
+  }
+
+  /**
+   * Formats a value like Jest's pretty-format does for simple values: strings quoted.
+   * @param value - The value
+   * @returns The formatted value
+   */
+  private formatPretty(value: StaticValue): string {
+    return typeof value === 'string' || typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  /**
+   * Binds a value to a declaration name, destructuring object and array patterns.
+   *
+   * @param nameNode - The declared name (identifier or binding pattern)
+   * @param declaration - The declaration the name's symbol points to
+   * @param value - The value to bind
+   * @param bindings - The bindings to extend
+   * @returns False if the value doesn't fit the pattern (or uses a rest element)
+   */
+  private bind(nameNode: Node, declaration: Node, value: StaticValue | undefined, bindings: Bindings): boolean {
+    if (value === undefined) {
+      return false;
+    }
+
+    if (Node.isIdentifier(nameNode)) {
+      bindings.set(declaration, value);
+      return true;
+    }
+
+    if (Node.isObjectBindingPattern(nameNode)) {
+      if (typeof value !== 'object' || Array.isArray(value)) return false;
+      return nameNode.getElements().every(element => {
+        if (element.getDotDotDotToken()) return false;
+        const key = element.getPropertyNameNode()?.getText() ?? element.getNameNode().getText();
+        const initializer = element.getInitializer();
+        const elementValue = value[key] ?? (initializer ? this.constantEvaluator.evaluateStatic(initializer, bindings) : undefined);
+        return this.bind(element.getNameNode(), element, elementValue, bindings);
+      });
+    }
+
+    if (Node.isArrayBindingPattern(nameNode)) {
+      if (!Array.isArray(value)) return false;
+      return nameNode.getElements().every((element, index) => {
+        if (Node.isOmittedExpression(element)) return true;
+        if (element.getDotDotDotToken()) return false;
+        return this.bind(element.getNameNode(), element, value[index], bindings);
+      });
+    }
+
+    return false;
+  }
+
+  /**
+   * Classifies a call by its callee text, using the framework's vocabulary.
+   *
+   * - describe: `test.describe`, `describe.skip`, ...
+   * - config: `test.use(...)`, and test modifiers without a test callback (`test.skip()`)
+   * - hook: `test.beforeEach`, `afterAll`, ...
+   * - test: `test`, `it.only`, ... with a title and a callback
+   *
+   * Anything else (`test.step`, `test.info`, `expect`) is not a test-framework call.
+   *
+   * Custom wrappers (`authTest`, `apiTest.describe`) are classified by the framework
+   * function their root resolves to, when the callee text alone isn't recognized.
+   *
+   * @param callExpr - The call expression to classify
+   * @returns The call kind, or null for ordinary calls
+   */
+  private classifyCall(callExpr: CallExpression): TestCallKind | null {
+    const callee = callExpr.getExpression();
+    const hasTitleAndCallback = callExpr.getArguments().length >= 2 && Boolean(this.getCallback(callExpr));
+
+    const kind = this.framework.classifyCall(callee.getText().split('.'), hasTitleAndCallback);
+    if (kind) {
+      return kind;
+    }
+
+    const resolvedPath = this.calleeResolver.resolve(callee);
+    return resolvedPath ? this.framework.classifyCall(resolvedPath, hasTitleAndCallback) : null;
+  }
+
+  /**
+   * Collects the tags of a test or describe, the way Playwright does: `@tag` words in
+   * the title, and the `tag` option of the details object (`{ tag: ['@smoke'] }`).
+   *
+   * @param callExpr - The test or describe call
+   * @param title - The call's own title
+   * @param inheritedTags - The tags of the enclosing describes
+   * @param bindings - Values of the loop variables in scope
+   * @returns The tags, inherited ones first
+   */
+  private getTags(callExpr: CallExpression, title: string, inheritedTags: string[], bindings: Bindings): string[] {
+    const tags = new Set([...inheritedTags, ...(title.match(/(?<=^|\s)@\S+/g) ?? [])]);
+
+    for (const arg of callExpr.getArguments().slice(1)) {
+      const tagProperty = Node.isObjectLiteralExpression(arg) ? arg.getProperty('tag') : undefined;
+      const tagNode = Node.isPropertyAssignment(tagProperty)
+        ? tagProperty.getInitializer()
+        : Node.isShorthandPropertyAssignment(tagProperty) ? tagProperty.getNameNode() : undefined;
+      const tagOption = tagNode ? this.constantEvaluator.evaluateStatic(tagNode, bindings) : undefined;
+
+      for (const tag of Array.isArray(tagOption) ? tagOption : [tagOption]) {
+        if (typeof tag === 'string') {
+          tags.add(tag);
+        }
+      }
+    }
+
+    return Array.from(tags);
+  }
+
+  /**
+   * Returns the callback of a test-framework call: its last function argument.
+   *
+   * @param callExpr - The call expression
+   * @returns The callback, or undefined if there is none
+   */
+  private getCallback(callExpr: CallExpression): Node | undefined {
+    const args = callExpr.getArguments();
+    const lastArg = args[args.length - 1];
+    return lastArg && (Node.isArrowFunction(lastArg) || Node.isFunctionExpression(lastArg)) ? lastArg : undefined;
+  }
+
+  /**
+   * Returns the source text of a call's callback body.
+   *
+   * @param callExpr - The test call expression
+   * @returns The body text, or '' without a callback
+   */
+  private getCallbackBody(callExpr: CallExpression): string {
+    const callback = this.getCallback(callExpr);
+    return callback && (Node.isArrowFunction(callback) || Node.isFunctionExpression(callback))
+      ? callback.getBody().getText()
+      : '';
+  }
+
+  /**
+   * Helper to safely extract test names from different syntax types.
+   * Handles StringLiteral, NoSubstitutionTemplateLiteral, and TemplateExpression.
+   *
+   * Dynamic Test Name Detection:
+   * - Detects NoSubstitutionTemplateLiteral (backticks without variables)
+   * - Detects TemplateExpression (backticks WITH variables like ${id})
+   * - Template expressions and other expressions are evaluated as constants first
+   *   (`${ROLE}` with `const ROLE = 'admin'`); only those that don't resolve are
+   *   marked as isDynamic: true
+   *
+   * @param args - The arguments array from the call expression
+   * @param bindings - Values of the loop variables in scope (parameterized tests)
+   * @returns Object with testName and isDynamic flag, or undefined if no valid name
+   */
+  private getTestName(args: Node[], bindings: Bindings = new Map()): { name: string; isDynamic: boolean } | undefined {
+    if (args.length === 0) return undefined;
+    const nameNode = args[0];
+    if (!nameNode) return undefined;
+
+    const argKind = nameNode.getKind();
+
+    // Case 1: Simple quotes 'test name' or "test name"
+    if (argKind === SyntaxKind.StringLiteral) {
+      return { name: nameNode.getText().slice(1, -1), isDynamic: false };
+    }
+
+    // Case 2: Backticks with NO variables `test name`
+    if (argKind === SyntaxKind.NoSubstitutionTemplateLiteral) {
+      return { name: nameNode.getText().slice(1, -1), isDynamic: false };
+    }
+
+    // A callback in title position (e.g. `test.describe(() => {...})`) - anonymous
+    if (Node.isArrowFunction(nameNode) || Node.isFunctionExpression(nameNode)) {
+      return undefined;
+    }
+
+    // Constant expressions (`login as ${ROLE}`, Role.Admin, PREFIX + 'name') have a concrete name
+    const constantName = this.constantEvaluator.evaluate(nameNode, bindings);
+    if (constantName !== undefined) {
+      return { name: String(constantName), isDynamic: false };
+    }
+
+    // Case 3: Backticks WITH variables `test ${id}` (The Hero Fix!)
+    // We return the raw text structure so we count it, even if we can't resolve the variable
+    if (argKind === SyntaxKind.TemplateExpression) {
+      // .getText() returns `test ${id}`, we strip the backticks
+      return { name: nameNode.getText().replace(/^`|`$/g, ''), isDynamic: true };
+    }
+
+    // Case 4: Other expressions (variables, function calls) - treat as dynamic
+    return { name: `[dynamic: ${nameNode.getText()}]`, isDynamic: true };
+  }
+}
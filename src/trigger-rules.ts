@@ -0,0 +1,50 @@
+import { matchesAny } from './config';
+import { TriggeredRule, TriggerRule } from './types';
+
+/**
+ * TriggerRuleEngine maps changed files to trigger rules.
+ *
+ * Why rules: runner config, package manifests, lockfiles and env files change what
+ * every test does, but no spec imports them, so dependency analysis selects nothing.
+ *
+ * Rules are ordered: each changed file fires the first rule whose globs match it.
+ * Project rules come first, followed by the framework's defaults, so a project
+ * can override a default (e.g. `ignore` package.json).
+ */
+export class TriggerRuleEngine {
+  private rules: TriggerRule[];
+
+  /**
+   * @param rules - The rules, in priority order
+   */
+  constructor(rules: TriggerRule[]) {
+    this.rules = rules;
+  }
+
+  /**
+   * Finds the rules fired by a set of changed files.
+   *
+   * @param changedPaths - The changed file paths, relative to the repo root
+   * @returns The fired rules with the files that fired them, in rule order
+   */
+  evaluate(changedPaths: string[]): TriggeredRule[] {
+    const firedFiles = new Map<TriggerRule, string[]>();
+
+    for (const changedPath of changedPaths) {
+      const rule = this.rules.find(candidate => matchesAny(changedPath, candidate.files));
+      if (rule) {
+        firedFiles.set(rule, [...(firedFiles.get(rule) ?? []), changedPath]);
+      }
+    }
+
+    return this.rules
+      .filter(rule => firedFiles.has(rule))
+      .map(rule => ({
+        name: rule.name ?? rule.files.join(', '),
+        action: rule.action,
+        ...(rule.project ? { project: rule.project } : {}),
+        ...(rule.tag ? { tag: rule.tag } : {}),
+        files: firedFiles.get(rule) ?? [],
+      }));
+  }
+}
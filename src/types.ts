@@ -1,3 +1,6 @@
+import { FrameworkName } from './frameworks';
+import { ProfileTimings } from './profiler';
+
 /**
  * Represents a file diff with specific changed lines.
  * Shared between GitService (producer) and Analyzer (consumer).
@@ -5,19 +8,71 @@
 export interface FileDiff {
   path: string;
   status: 'ADDED' | 'MODIFIED' | 'DELETED' | 'RENAMED';
+  /** For RENAMED files: the path before the rename */
+  oldPath?: string;
   changedLines: number[]; // The specific line numbers (e.g., [10, 11, 12])
+  /**
+   * Pure deletions (`@@ -42,3 +41,0 @@`) mapped to the new file: each entry N means
+   * lines were removed between line N and line N + 1 (0 = before the first line).
+   */
+  deletedAfterLines?: number[];
+  /** The old-file line ranges removed or replaced by each hunk */
+  oldLineRanges?: LineRange[];
+  /** Select every test of the file, whatever its changed lines (--all mode) */
+  selectAllTests?: boolean;
+}
+
+/**
+ * An inclusive range of line numbers.
+ */
+export interface LineRange {
+  startLine: number;
+  endLine: number;
 }
 
 /**
  * The type of impact that caused a test to be selected.
  */
-export type ImpactType = 'DIRECT' | 'DEPENDENCY' | 'REMOVED';
+export type ImpactType =
+  | 'DIRECT'
+  /** The test uses spec-level code (a constant, local helper or import) that changed */
+  | 'LOCAL_DEPENDENCY'
+  | 'DEPENDENCY'
+  /** The test depended on a file that was deleted */
+  | 'DEPENDENCY_DELETED'
+  | 'REMOVED'
+  /** The test's title changed, but its body matches a test that existed before */
+  | 'RENAMED'
+  /** The test's body matches a test that was removed from another spec file */
+  | 'MOVED'
+  /** A file matched by a run-all trigger rule changed */
+  | 'RUN_ALL'
+  /** The test has the tag of a tag trigger rule that fired */
+  | 'TAGGED'
+  /** The test loads a data file that changed (JSON fixture, CSV, storage state, ...) */
+  | 'DATA_DEPENDENCY'
+  /** The test's file is configured to run on every change (`alwaysRun`) */
+  | 'ALWAYS_RUN';
+
+/**
+ * One link of the chain that selected a test: the changed file first, then the files
+ * importing it on the way, and the test's spec file last.
+ */
+export interface ImpactReason {
+  /** The file, relative to the repo root */
+  file: string;
+  /** For the changed file: the changed line the chain starts at */
+  line?: number;
+}
 
 /**
  * Represents a test that has been impacted by changes.
  */
 export interface ImpactedTest {
+  /** The full test title, describe titles included: "Suite > Sub > test" */
   testName: string;
+  /** The describe titles followed by the test title, as Playwright matches them */
+  titlePath?: string[];
   fileName: string;
   impactType: ImpactType;
   /**
@@ -25,6 +80,53 @@ export interface ImpactedTest {
    * Dynamic tests cannot be safely grepped and require File Mode execution.
    */
   isDynamic?: boolean;
+  /** For RENAMED and MOVED tests: the full title before the change */
+  previousName?: string;
+  /** For RENAMED and MOVED tests: the spec file the test was in before the change */
+  previousFile?: string;
+  /** For RUN_ALL and TAGGED tests: the name of the trigger rule that selected the test */
+  rule?: string;
+  /** For DATA_DEPENDENCY tests: the changed data file the test loads */
+  dataFile?: string;
+  /** The chain from the change to the test (`helpers/auth.ts:42` → `fixtures/login.ts` → the spec) */
+  reasons: ImpactReason[];
+}
+
+/**
+ * What a trigger rule does when a changed file matches it:
+ * - run-all: select every test
+ * - project: run a named Playwright project in full
+ * - tag: select the tests with a tag (`@smoke` in the title or the `tag` option)
+ * - ignore: leave the file out of the analysis
+ */
+export type TriggerAction = 'run-all' | 'project' | 'tag' | 'ignore';
+
+/**
+ * Maps changed files that no test imports (runner config, lockfiles, env files)
+ * to tests that should run.
+ */
+export interface TriggerRule {
+  /** The name shown in the report (defaults to the globs) */
+  name?: string;
+  /** Globs of the changed files the rule applies to, relative to the repo root */
+  files: string[];
+  action: TriggerAction;
+  /** For the project action: the Playwright project to run */
+  project?: string;
+  /** For the tag action: the tag to select, e.g. "@smoke" */
+  tag?: string;
+}
+
+/**
+ * A trigger rule that matched at least one changed file.
+ */
+export interface TriggeredRule {
+  name: string;
+  action: TriggerAction;
+  project?: string;
+  tag?: string;
+  /** The changed files the rule matched */
+  files: string[];
 }
 
 /**
@@ -40,6 +142,8 @@ export interface FileAnalysisResult {
   filePath: string;
   /** The status of the file */
   status: FileStatus;
+  /** For RENAMED files: the path before the rename */
+  oldPath?: string;
   /** The tests selected from this file */
   tests: ImpactedTest[];
   /**
@@ -55,10 +159,70 @@ export interface FileAnalysisResult {
 export interface AnalysisReport {
   /** The commit SHA that was analyzed */
   commitSha: string;
+  /**
+   * The commit the changes were compared against (parent commit, range base or merge-base).
+   * Undefined when there is no history to compare against (--all mode, initial commit).
+   */
+  baseSha?: string;
   /** The repository path */
   repoPath: string;
   /** Results grouped by file */
   fileResults: FileAnalysisResult[];
   /** Total number of tests selected */
   totalTestsSelected: number;
+  /** The trigger rules the changed files fired */
+  triggeredRules?: TriggeredRule[];
+  /** The test framework the tests were selected for */
+  framework: FrameworkName;
+  /** The changed files the selection was made for, relative to the repo root */
+  changedFiles: string[];
+  /** Milliseconds spent per phase and in total, when profiling was requested */
+  profile?: ProfileTimings & { total: number };
+}
+
+/**
+ * The kind of a file in the import graph:
+ * - test: a test file of the framework
+ * - fixture: a file defining fixtures (`test.extend({...})`)
+ * - helper: any other code file (helpers, page objects, ...)
+ */
+export type ImportGraphNodeKind = 'test' | 'fixture' | 'helper';
+
+/**
+ * A code file in the import graph.
+ */
+export interface ImportGraphNode {
+  /** The file, relative to the repo root */
+  file: string;
+  kind: ImportGraphNodeKind;
+  /** The number of test files depending on the file, directly or transitively */
+  dependentTests: number;
+  /** True if the analyzed change touches the file */
+  changed: boolean;
+}
+
+/**
+ * An import between two code files: `from` loads `to`.
+ */
+export interface ImportGraphEdge {
+  from: string;
+  to: string;
+}
+
+/**
+ * The import graph of a snapshot: the graph dependency tracking walks (in reverse).
+ */
+export interface ImportGraph {
+  nodes: ImportGraphNode[];
+  edges: ImportGraphEdge[];
+}
+
+/**
+ * Receives the progress messages of selectTests. Nothing is written to the console otherwise.
+ */
+export interface Logger {
+  /** Progress: the resolved settings, the number of changed files, the base commit */
+  info(message: string): void;
+  /** Degraded results, e.g. an analysis error falling back to running whole files */
+  warn(message: string): void;
 }